@@ -0,0 +1,11 @@
+export default [
+  'https://raytracing.github.io/',
+  'https://github.com/',
+  'https://en.wikipedia.org/',
+  'https://doc.rust-lang.org/',
+  'https://docs.rs/',
+  'https://crates.io/',
+  'http://www.cs.cornell.edu/',
+  'https://el.media.mit.edu/',
+  'https://imagemagick.org/',
+];
\ No newline at end of file
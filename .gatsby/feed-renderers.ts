@@ -0,0 +1,118 @@
+import {FeedFormat} from '../src/utils/feeds';
+import {escapeMarkup} from './escape-markup';
+
+export type FeedAuthor = {
+  name: string;
+  url: string;
+};
+
+export type FeedItem = {
+  title: string;
+  url: string;
+  guid: string;
+  date: string;
+  updated: null | string;
+  authors: FeedAuthor[];
+  description: string;
+  content: string;
+};
+
+export type Feed = {
+  title: string;
+  description: string;
+  language: string;
+  siteUrl: string;
+  feedUrls: { [format in FeedFormat]: string };
+  items: FeedItem[];
+};
+
+export const feedRenderers: { [format in FeedFormat]: (feed: Feed) => string } = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
+
+function renderRss(feed: Feed): string {
+  const items = feed.items.map(item => `
+    <item>
+      <title>${escapeMarkup(item.title)}</title>
+      <link>${escapeMarkup(item.url)}</link>
+      <guid isPermaLink="false">${escapeMarkup(item.guid)}</guid>
+      <pubDate>${new Date(item.date).toUTCString()}</pubDate>${item.authors.map(author => `
+      <dc:creator>${escapeMarkup(author.name)}</dc:creator>`).join('')}
+      <description>${escapeMarkup(item.description)}</description>
+      <content:encoded>${escapeMarkup(item.content)}</content:encoded>
+    </item>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeMarkup(feed.title)}</title>
+    <link>${escapeMarkup(feed.siteUrl)}</link>
+    <description>${escapeMarkup(feed.description)}</description>
+    <language>${escapeMarkup(feed.language)}</language>
+    <atom:link href="${escapeMarkup(feed.feedUrls.rss)}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${new Date(lastUpdated(feed)).toUTCString()}</lastBuildDate>${items}
+  </channel>
+</rss>
+`;
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.items.map(item => `
+  <entry>
+    <title>${escapeMarkup(item.title)}</title>
+    <link href="${escapeMarkup(item.url)}"/>
+    <id>${escapeMarkup(item.guid)}</id>
+    <published>${new Date(item.date).toISOString()}</published>
+    <updated>${new Date(modified(item)).toISOString()}</updated>${item.authors.map(author => `
+    <author>
+      <name>${escapeMarkup(author.name)}</name>
+      <uri>${escapeMarkup(author.url)}</uri>
+    </author>`).join('')}
+    <summary>${escapeMarkup(item.description)}</summary>
+    <content type="html">${escapeMarkup(item.content)}</content>
+  </entry>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeMarkup(feed.language)}">
+  <title>${escapeMarkup(feed.title)}</title>
+  <subtitle>${escapeMarkup(feed.description)}</subtitle>
+  <link href="${escapeMarkup(feed.siteUrl)}"/>
+  <link href="${escapeMarkup(feed.feedUrls.atom)}" rel="self"/>
+  <id>${escapeMarkup(feed.feedUrls.atom)}</id>
+  <updated>${new Date(lastUpdated(feed)).toISOString()}</updated>${entries}
+</feed>
+`;
+}
+
+function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.siteUrl,
+    feed_url: feed.feedUrls.json,
+    language: feed.language,
+    items: feed.items.map(item => ({
+      id: item.guid,
+      url: item.url,
+      title: item.title,
+      summary: item.description,
+      content_html: item.content,
+      date_published: new Date(item.date).toISOString(),
+      date_modified: new Date(modified(item)).toISOString(),
+      authors: item.authors,
+    })),
+  }, null, 2);
+}
+
+function modified(item: FeedItem): string {
+  return item.updated === null ? item.date : item.updated;
+}
+
+function lastUpdated(feed: Feed): string {
+  return feed.items
+    .map(item => new Date(modified(item)).toISOString())
+    .reduce((latest, date) => date > latest ? date : latest, new Date(0).toISOString());
+}
\ No newline at end of file
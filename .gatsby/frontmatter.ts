@@ -0,0 +1,235 @@
+export type Series = {
+  title: string;
+  part: number;
+};
+
+export type Source = {
+  repository: string;
+  commit: string;
+};
+
+export type ChangelogEntry = {
+  date: string;
+  note: string;
+};
+
+export type Frontmatter = {
+  title: string;
+  date: string;
+  tags: string[];
+  series: null | Series;
+  draft: null | boolean;
+  description: null | string;
+  slug: null | string;
+  aliases: null | string[];
+  guid: null | string;
+  source: null | Source;
+  updated: null | string;
+  changelog: null | ChangelogEntry[];
+  authors: null | string[];
+};
+
+export type Fields = {
+  slug: string;
+  aliases: string[];
+  guid: string;
+  updated: null | string;
+  authors: string[];
+  language: string;
+  translationKey: string;
+};
+
+type FieldType<T> =
+  T extends string ? 'String' | 'Date' :
+  T extends number ? 'Int' :
+  T extends boolean ? 'Boolean' :
+  T extends string[] ? '[String]' :
+  T extends Record<string, unknown>[] ? [ObjectSchema<T[number]>] :
+  T extends Record<string, unknown> ? ObjectSchema<T> :
+  never;
+
+type FieldSchema<T> = {
+  type: FieldType<NonNullable<T>>;
+  required: null extends T ? false : true;
+};
+
+export type ObjectSchema<T> = {
+  name: string;
+  fields: { [K in keyof T]-?: FieldSchema<T[K]> };
+};
+
+type AnyFieldSchema = {
+  type: string | AnyObjectSchema | [AnyObjectSchema];
+  required: boolean;
+};
+
+type AnyObjectSchema = {
+  name: string;
+  fields: { [name: string]: AnyFieldSchema };
+};
+
+export type FrontmatterError = {
+  field: string;
+  reason: string;
+};
+
+export const seriesSchema: ObjectSchema<Series> = {
+  name: 'MarkdownRemarkFrontmatterSeries',
+  fields: {
+    title: {type: 'String', required: true},
+    part: {type: 'Int', required: true},
+  },
+};
+
+export const sourceSchema: ObjectSchema<Source> = {
+  name: 'MarkdownRemarkFrontmatterSource',
+  fields: {
+    repository: {type: 'String', required: true},
+    commit: {type: 'String', required: true},
+  },
+};
+
+export const changelogEntrySchema: ObjectSchema<ChangelogEntry> = {
+  name: 'MarkdownRemarkFrontmatterChangelog',
+  fields: {
+    date: {type: 'Date', required: true},
+    note: {type: 'String', required: true},
+  },
+};
+
+export const frontmatterSchema: ObjectSchema<Frontmatter> = {
+  name: 'MarkdownRemarkFrontmatter',
+  fields: {
+    title: {type: 'String', required: true},
+    date: {type: 'Date', required: true},
+    tags: {type: '[String]', required: true},
+    series: {type: seriesSchema, required: false},
+    draft: {type: 'Boolean', required: false},
+    description: {type: 'String', required: false},
+    slug: {type: 'String', required: false},
+    aliases: {type: '[String]', required: false},
+    guid: {type: 'String', required: false},
+    source: {type: sourceSchema, required: false},
+    updated: {type: 'Date', required: false},
+    changelog: {type: [changelogEntrySchema], required: false},
+    authors: {type: '[String]', required: false},
+  },
+};
+
+export function validateFrontmatter(frontmatter: unknown): FrontmatterError[] {
+  return validateObject(frontmatterSchema as AnyObjectSchema, frontmatter, '');
+}
+
+function validateObject(schema: AnyObjectSchema, value: unknown, path: string): FrontmatterError[] {
+  if (!isRecord(value)) {
+    return [{field: path === '' ? '(frontmatter)' : path, reason: `expected an object, got ${describe(value)}`}];
+  }
+
+  const errors: FrontmatterError[] = [];
+  Object.entries(schema.fields).forEach(([name, field]) => {
+    errors.push(...validateField(field, value[name], fieldPath(path, name)));
+  });
+  Object.keys(value)
+    .filter(name => !Object.prototype.hasOwnProperty.call(schema.fields, name))
+    .forEach(name => errors.push({field: fieldPath(path, name), reason: 'is not a known field'}));
+  return errors;
+}
+
+function fieldPath(path: string, name: string): string {
+  return path === '' ? name : `${path}.${name}`;
+}
+
+function validateField(field: AnyFieldSchema, value: unknown, name: string): FrontmatterError[] {
+  if (value === undefined || value === null) {
+    return field.required ? [{field: name, reason: 'is required'}] : [];
+  }
+
+  if (Array.isArray(field.type)) {
+    const element = field.type[0];
+    if (!Array.isArray(value)) {
+      return [{field: name, reason: `expected a list, got ${describe(value)}`}];
+    }
+    return ([] as FrontmatterError[]).concat(...value.map((v, i) => validateObject(element, v, `${name}[${i}]`)));
+  }
+
+  if (typeof field.type !== 'string') {
+    return validateObject(field.type, value, name);
+  }
+
+  const reason = validateScalar(field.type, value);
+  return reason === null ? [] : [{field: name, reason}];
+}
+
+function validateScalar(type: string, value: unknown): null | string {
+  switch (type) {
+  case 'String':
+    return typeof value === 'string' && value.trim() !== '' ? null : `expected a non-empty string, got ${describe(value)}`;
+  case 'Date':
+    return isDate(value) ? null : `expected a date, got ${describe(value)}`;
+  case 'Int':
+    return Number.isInteger(value) ? null : `expected an integer, got ${describe(value)}`;
+  case 'Boolean':
+    return typeof value === 'boolean' ? null : `expected true or false, got ${describe(value)}`;
+  case '[String]':
+    return Array.isArray(value) && value.every(v => typeof v === 'string' && v.trim() !== '') ? null : `expected a list of non-empty strings, got ${describe(value)}`;
+  default:
+    throw new Error(`Unknown frontmatter field type: ${type}`);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function isDate(value: unknown): boolean {
+  if (value instanceof Date) {
+    return !isNaN(value.getTime());
+  }
+  return typeof value === 'string' && isoDatePattern.test(value) && !isNaN(Date.parse(value));
+}
+
+function describe(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : JSON.stringify(value);
+}
+
+export function frontmatterTypeDefs(): string {
+  const types: string[] = [];
+  collectTypeDefs(frontmatterSchema as AnyObjectSchema, types);
+  return [
+    `type MarkdownRemark implements Node {\n  frontmatter: ${frontmatterSchema.name}!\n  fields: MarkdownRemarkFields!\n}`,
+    'type MarkdownRemarkFields {\n  slug: String!\n  aliases: [String!]!\n  guid: String!\n  updated: Date @dateformat\n  authors: [String!]!\n  language: String!\n  translationKey: String!\n}',
+    ...types,
+  ].join('\n');
+}
+
+function collectTypeDefs(schema: AnyObjectSchema, types: string[]) {
+  const fields = Object.entries(schema.fields).map(([name, field]) => {
+    if (Array.isArray(field.type)) {
+      collectTypeDefs(field.type[0], types);
+    } else if (typeof field.type !== 'string') {
+      collectTypeDefs(field.type, types);
+    }
+    return `  ${name}: ${typeDef(field)}`;
+  });
+  types.push(`type ${schema.name} {\n${fields.join('\n')}\n}`);
+}
+
+function typeDef(field: AnyFieldSchema): string {
+  const nullability = field.required ? '!' : '';
+  if (Array.isArray(field.type)) {
+    return `[${field.type[0].name}!]${nullability}`;
+  }
+  if (typeof field.type !== 'string') {
+    return field.type.name + nullability;
+  }
+  switch (field.type) {
+  case 'Date':
+    return `Date${nullability} @dateformat`;
+  case '[String]':
+    return `[String!]${nullability}`;
+  default:
+    return field.type + nullability;
+  }
+}
\ No newline at end of file
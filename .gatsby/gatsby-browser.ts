@@ -1,3 +1,17 @@
-import 'prismjs/themes/prism-tomorrow.css';
 import 'prismjs/plugins/line-numbers/prism-line-numbers.css';
-import 'prismjs/plugins/command-line/prism-command-line.css';
\ No newline at end of file
+import 'prismjs/plugins/command-line/prism-command-line.css';
+import {registerServiceWorker, rememberVisitedPage} from '../src/utils/offline';
+
+type RouteUpdate = {
+  location: {
+    pathname: string;
+  };
+};
+
+exports.onInitialClientRender = () => {
+  registerServiceWorker();
+};
+
+exports.onRouteUpdate = ({location}: RouteUpdate) => {
+  rememberVisitedPage(location.pathname);
+};
\ No newline at end of file
@@ -1,3 +1,14 @@
+import {themeColors} from '../src/utils/theme';
+import {authorInfo} from '../src/utils/author-registry';
+import {site} from '../src/data/site';
+import {siteConfigProblems} from '../src/utils/site-config';
+import {feedPath} from '../src/utils/feeds';
+import {defaultLanguage, languages} from '../src/data/languages';
+import {languagePath} from '../src/utils/language-registry';
+import {offlinePagePath} from '../src/utils/offline';
+import {escapeMarkup} from './escape-markup';
+import {parseSourceRange} from './source-snippets';
+
 type FeedQueryResult = {
   query: {
     site: {
@@ -16,9 +27,11 @@ type FeedQueryResult = {
               part: number;
             };
           };
-          excerpt: string;
+          summary: string;
           fields: {
             slug: string;
+            guid: string;
+            authors: string[];
           };
           html: string;
         };
@@ -33,15 +46,58 @@ type FeedResult = {
   date: string;
   url: string;
   guid: string;
+  author: string;
   custom_elements: { 'content:encoded': string }[];
 }[];
 
+type SitemapQueryResult = {
+  site: {
+    siteMetadata: {
+      siteUrl: string;
+    };
+  };
+  allSitePage: {
+    nodes: {
+      path: string;
+    }[];
+  };
+  allMarkdownRemark: {
+    nodes: {
+      fields: {
+        slug: string;
+        updated: null | string;
+      };
+      frontmatter: {
+        date: string;
+      };
+    }[];
+  };
+};
+
+type SitemapEntry = {
+  url: string;
+  changefreq: string;
+  priority: number;
+  lastmod?: string;
+};
+
+const backgroundColor = themeColors.light.background;
+const themeColor = themeColors.light.theme;
+
+const siteProblems = siteConfigProblems();
+if (siteProblems.length > 0) {
+  throw new Error(`Invalid site configuration:\n${siteProblems.map(problem => `  ${problem}`).join('\n')}`);
+}
+
 export default {
   siteMetadata: {
-    title: 'Austin Doupnik',
-    siteUrl: 'https://austindoupnik.github.io',
-    description: 'Austin Doupnik\'s Web Log',
-    author: 'Austin Doupnik'
+    title: site.title,
+    siteUrl: site.siteUrl,
+    description: site.description,
+    author: site.author,
+    postsPerPage: site.postsPerPage,
+    backgroundColor,
+    themeColor,
   },
   plugins: [
     {
@@ -54,17 +110,29 @@ export default {
     {
       resolve: 'gatsby-transformer-remark',
       options: {
+        excerpt_separator: '<!-- more -->',
         plugins: [
+          'gatsby-remark-cross-references',
           'gatsby-remark-katex',
           'gatsby-remark-autolink-headers',
+          {
+            resolve: 'gatsby-remark-code-blocks',
+            options: {
+              escapeMarkup,
+              parseSourceRange,
+            },
+          },
+          {
+            resolve: 'gatsby-remark-containers',
+            options: {
+              escapeMarkup,
+            },
+          },
           {
             resolve: 'gatsby-remark-prismjs',
             options: {
               noInlineHighlight: true,
-              prompt: {
-                user: 'austind',
-                global: false,
-              },
+              prompt: site.prompt,
             },
           },
           {
@@ -83,11 +151,12 @@ export default {
     {
       resolve: 'gatsby-plugin-manifest',
       options: {
-        name: 'Austin Doupnik',
-        short_name: 'Austin Doupnik',
+        name: site.title,
+        short_name: site.shortTitle,
         start_url: '/',
-        background_color: '#f7f0eb',
-        theme_color: '#a2466c',
+        background_color: backgroundColor,
+        theme_color: themeColor,
+        theme_color_in_head: false,
         display: 'standalone',
         icon: 'favicon.png',
       },
@@ -120,10 +189,11 @@ export default {
               return allMarkdownRemark.edges.map((edge) => {
                 return {
                   title: (edge.node.frontmatter.series == null ? '' : edge.node.frontmatter.series.title + ': ') + edge.node.frontmatter.title,
-                  description: edge.node.excerpt,
+                  description: edge.node.summary,
                   date: edge.node.frontmatter.date,
                   url: site.siteMetadata.siteUrl + edge.node.fields.slug,
-                  guid: site.siteMetadata.siteUrl + edge.node.fields.slug,
+                  guid: site.siteMetadata.siteUrl + edge.node.fields.guid,
+                  author: edge.node.fields.authors.map(author => authorInfo(author).name).join(', '),
                   custom_elements: [
                     {
                       'content:encoded': edge.node.html
@@ -134,13 +204,15 @@ export default {
             },
             query: `
               {
-                allMarkdownRemark(sort: {order: DESC, fields: [frontmatter___date]}) {
+                allMarkdownRemark(filter: {visible: {eq: true}, fields: {language: {eq: "${defaultLanguage}"}}}, sort: {order: DESC, fields: [frontmatter___date]}) {
                   edges {
                     node {
-                      excerpt
+                      summary
                       html
                       fields {
                         slug
+                        guid
+                        authors
                       }
                       frontmatter {
                         title
@@ -154,14 +226,57 @@ export default {
                 }
               }
             `,
-            output: '/rss.xml',
-            title: 'Austin Doupnik\'s Web Log',
+            output: feedPath('/', 'rss'),
+            title: site.feeds.title,
+            language: defaultLanguage,
           },
         ],
       },
     },
     'gatsby-plugin-sharp',
-    'gatsby-plugin-sitemap',
+    {
+      resolve: 'gatsby-plugin-sitemap',
+      options: {
+        exclude: [offlinePagePath, ...languages.filter(({code}) => code !== defaultLanguage).map(({code}) => languagePath(code, '/404'))],
+        query: `
+          {
+            site {
+              siteMetadata {
+                siteUrl
+              }
+            }
+            allSitePage {
+              nodes {
+                path
+              }
+            }
+            allMarkdownRemark(filter: {visible: {eq: true}}) {
+              nodes {
+                fields {
+                  slug
+                  updated
+                }
+                frontmatter {
+                  date
+                }
+              }
+            }
+          }
+        `,
+        serialize: ({site, allSitePage, allMarkdownRemark}: SitemapQueryResult): SitemapEntry[] => {
+          const lastModified = new Map(allMarkdownRemark.nodes.map(node => [node.fields.slug, node.fields.updated === null ? node.frontmatter.date : node.fields.updated]));
+          return allSitePage.nodes.map(page => {
+            const lastmod = lastModified.get(page.path);
+            return {
+              url: site.siteMetadata.siteUrl + page.path,
+              changefreq: 'daily',
+              priority: 0.7,
+              ...(lastmod === undefined ? {} : {lastmod}),
+            };
+          });
+        },
+      },
+    },
     'gatsby-plugin-robots-txt',
   ],
 };
\ No newline at end of file
@@ -1,20 +1,49 @@
 import slugify from 'slugify';
 import path from 'path';
+import fs from 'fs';
+import {execFileSync} from 'child_process';
 import {createFilePath} from 'gatsby-source-filesystem';
 import {Node} from 'gatsby';
-import util from 'util';
+import {Fields, Frontmatter, frontmatterTypeDefs, Source, validateFrontmatter} from './frontmatter';
+import {PostStatus} from '../src/utils/post-status';
+import {series as seriesInfo} from '../src/data/series';
+import {pagePath} from '../src/utils/pagination';
+import {SearchDocument, searchIndexPath} from '../src/utils/search';
+import {rankRelatedPosts} from './related-posts';
+import {feedFormats, feedPath} from '../src/utils/feeds';
+import {Feed, feedRenderers} from './feed-renderers';
+import {renderSocialImage} from './social-image-renderer';
+import {socialImagePath} from '../src/utils/social-images';
+import {isExternalUrl, markdownImages, safeDecode} from './markdown-images';
+import {BrokenReference, checkGeneratedPages, checkMarkdownImages, formatBrokenReferences, normalizePath} from './link-checker';
+import externalLinkAllowlist from './external-link-allowlist';
+import {normalizeSlug, Permalink, permalinkProblems, redirectPage} from './permalinks';
+import {checkSourceSnippet, sourceCheckout, sourceSnippets} from './source-snippets';
+import {firstImage, htmlToText} from './summaries';
+import {authorInfo, authorRegistryProblems, authorSlug, isKnownAuthor, postAuthors} from '../src/utils/author-registry';
+import {canonicalTag, canonicalTags, tagAliasSlugs, tagInfo, tagRegistryProblems, tagSlug} from '../src/utils/tag-registry';
+import {defaultLanguage, languages} from '../src/data/languages';
+import {appShellUrls, appShellVersion, serviceWorkerScript} from './service-worker';
+import {serviceWorkerPath} from '../src/utils/offline';
+import {fileLanguage, languageInfo, languagePath, languageRegistryProblems, uiStrings} from '../src/utils/language-registry';
+
+type BlogPost = {
+  fields: Pick<Fields, 'slug' | 'language' | 'translationKey'>;
+  status: PostStatus;
+  frontmatter: Pick<Frontmatter, 'title' | 'series' | 'date' | 'tags'>;
+  html: string;
+};
+
+type Translation = {
+  language: string;
+  slug: string;
+};
 
 type BlogPostQueryResult = {
   data: {
     allMarkdownRemark: {
       edges: {
-        node: {
-          fields: {
-            slug: string;
-          };
-        };
-        previous: unknown;
-        next: unknown;
+        node: BlogPost;
       }[];
     };
   };
@@ -23,14 +52,32 @@ type BlogPostQueryResult = {
 
 type GraphQL = (query: string) => unknown;
 
+type SiteQueryResult = {
+  data: {
+    site: {
+      siteMetadata: {
+        postsPerPage: number;
+      };
+    };
+  };
+  errors: string[];
+};
+
+type IndexQueryResult = {
+  data: {
+    allMarkdownRemark: {
+      totalCount: number;
+    };
+  };
+  errors: string[];
+};
+
 type TagQueryResult = {
   data: {
     allMarkdownRemark: {
       edges: {
         node: {
-          frontmatter: {
-            tags: string[];
-          }
+          frontmatter: Pick<Frontmatter, 'tags'>;
         };
       }[];
     };
@@ -38,9 +85,17 @@ type TagQueryResult = {
   errors: string[];
 };
 
-type Series = {
-  title: string;
-  part: number;
+type AuthorQueryResult = {
+  data: {
+    allMarkdownRemark: {
+      nodes: {
+        fields: Pick<Fields, 'authors' | 'language'>;
+        visible: boolean;
+        frontmatter: Pick<Frontmatter, 'title'>;
+      }[];
+    };
+  };
+  errors: string[];
 };
 
 type SeriesQueryResult = {
@@ -48,9 +103,128 @@ type SeriesQueryResult = {
     allMarkdownRemark: {
       edges: {
         node: {
-          frontmatter: {
-            series: Series;
-          }
+          fields: Pick<Fields, 'slug'>;
+          frontmatter: Pick<Frontmatter, 'series'>;
+        };
+      }[];
+    };
+  };
+  errors: string[];
+};
+
+type ArchiveQueryResult = {
+  data: {
+    allMarkdownRemark: {
+      nodes: {
+        frontmatter: Pick<Frontmatter, 'date'>;
+      }[];
+    };
+  };
+  errors: string[];
+};
+
+type SearchQueryResult = {
+  data: {
+    allMarkdownRemark: {
+      edges: {
+        node: {
+          fields: Pick<Fields, 'slug'>;
+          frontmatter: Pick<Frontmatter, 'title' | 'date' | 'tags' | 'series'>;
+          headings: {
+            value: string;
+          }[];
+          html: string;
+        };
+      }[];
+    };
+  };
+  errors: string[];
+};
+
+type FeedPost = {
+  fields: Pick<Fields, 'slug' | 'guid' | 'updated' | 'authors' | 'language'>;
+  frontmatter: Pick<Frontmatter, 'title' | 'date' | 'tags' | 'series'>;
+  summary: string;
+  html: string;
+};
+
+type FeedQueryResult = {
+  data: {
+    site: {
+      siteMetadata: {
+        title: string;
+        siteUrl: string;
+      };
+    };
+    allMarkdownRemark: {
+      edges: {
+        node: FeedPost;
+      }[];
+    };
+  };
+  errors: string[];
+};
+
+type SocialImageQueryResult = {
+  data: {
+    site: {
+      siteMetadata: {
+        title: string;
+        backgroundColor: string;
+        themeColor: string;
+      };
+    };
+    allMarkdownRemark: {
+      edges: {
+        node: {
+          fields: Pick<Fields, 'slug'>;
+          frontmatter: Pick<Frontmatter, 'title' | 'date' | 'tags' | 'series'>;
+          rawMarkdownBody: string;
+          parent: {
+            dir: string;
+          };
+        };
+      }[];
+    };
+  };
+  errors: string[];
+};
+
+type LinkCheckQueryResult = {
+  data: {
+    site: {
+      siteMetadata: {
+        siteUrl: string;
+      };
+    };
+    allSitePage: {
+      nodes: {
+        path: string;
+      }[];
+    };
+    allMarkdownRemark: {
+      nodes: {
+        rawMarkdownBody: string;
+        parent: {
+          dir: string;
+          absolutePath: string;
+        };
+      }[];
+    };
+  };
+  errors: string[];
+};
+
+type SourceSnippetQueryResult = {
+  data: {
+    allMarkdownRemark: {
+      nodes: {
+        rawMarkdownBody: string;
+        frontmatter: {
+          source: null | Source;
+        };
+        parent: {
+          absolutePath: string;
         };
       }[];
     };
@@ -60,11 +234,42 @@ type SeriesQueryResult = {
 
 type PageInput = {
   path: string;
+  matchPath?: string;
   component: string;
   layout?: string;
   context?: unknown;
 };
 
+type PermalinkQueryResult = {
+  data: {
+    allMarkdownRemark: {
+      nodes: {
+        fields: Pick<Fields, 'slug' | 'aliases' | 'guid'>;
+        visible: boolean;
+        frontmatter: Pick<Frontmatter, 'title'>;
+      }[];
+    };
+  };
+  errors: string[];
+};
+
+type RedirectPageQueryResult = {
+  data: {
+    site: {
+      siteMetadata: {
+        siteUrl: string;
+      };
+    };
+    allMarkdownRemark: {
+      nodes: {
+        fields: Pick<Fields, 'slug' | 'aliases' | 'language'>;
+        frontmatter: Pick<Frontmatter, 'tags'>;
+      }[];
+    };
+  };
+  errors: string[];
+};
+
 type BoundActionCreators = {
   createPage: (page: PageInput) => void;
   deletePage: (page: PageInput) => void;
@@ -76,7 +281,8 @@ type BoundActionCreators = {
       toPath: string
     }
   ) => void;
-  createNodeField: (page: { node: unknown, name: string, value: string }) => void;
+  createNodeField: (page: { node: unknown, name: string, value: unknown }) => void;
+  createTypes: (typeDefs: string) => void;
 };
 
 type CreatePages = {
@@ -86,165 +292,1106 @@ type CreatePages = {
 
 type CreateNode = {
   node: Node;
-  getNode: () => unknown;
+  getNode: (id: string) => Node;
   actions: BoundActionCreators;
 }
 
-async function createBlogPostPages(graphql: GraphQL, createPage: (page: PageInput) => void) {
-  const query = `
-      {
-        allMarkdownRemark(sort: {fields: frontmatter___date, order: ASC}) {
-          edges {
-            previous {
-              fields {
-                slug
-              }
-              frontmatter {
-                title
-              }
-            }
+type DeleteNode = {
+  node: Node;
+}
 
-            node {
-              fields {
-                slug
-              }
-              frontmatter {
-                title
-              }
-            }
+type CreatePage = {
+  page: PageInput;
+  actions: BoundActionCreators;
+}
 
-            next {
-              fields {
-                slug
-              }
-              frontmatter {
-                title
-              }
-            }
+type CreateSchemaCustomization = {
+  actions: BoundActionCreators;
+}
+
+type PostBuild = {
+  graphql: GraphQL;
+}
+
+type ResolveInfo = {
+  schema: {
+    getType: (name: string) => {
+      getFields: () => {
+        [field: string]: {
+          resolve: (source: unknown, args: Record<string, unknown>, context: unknown, info: ResolveInfo) => Promise<unknown>;
+        };
+      };
+    };
+  };
+};
+
+type Resolver = {
+  type: string;
+  resolve: (source: Node, args: Record<string, unknown>, context: unknown, info: ResolveInfo) => Promise<unknown>;
+};
+
+type CreateResolvers = {
+  createResolvers: (resolvers: { [type: string]: { [field: string]: Resolver } }) => void;
+}
+
+const summaryLength = 200;
+
+const relatedPostCount = 3;
+
+const frontmatterErrors = new Map<string, { file: string, errors: string[] }>();
+
+function checkFrontmatter(node: Node, getNode: (id: string) => Node) {
+  const file = path.relative(process.cwd(), getNode(node.parent).absolutePath as string);
+  const errors = validateFrontmatter(node.frontmatter);
+  if (errors.length === 0) {
+    frontmatterErrors.delete(node.id);
+  } else {
+    frontmatterErrors.set(node.id, {file, errors: errors.map(error => `${error.field}: ${error.reason}`)});
+  }
+}
+
+function reportFrontmatterErrors() {
+  if (frontmatterErrors.size === 0) {
+    return;
+  }
+
+  const report = Array.from(frontmatterErrors.values())
+    .sort((a, b) => a.file.localeCompare(b.file))
+    .map(({file, errors}) => [`  ${file}`, ...errors.map(error => `    ${error}`)].join('\n'))
+    .join('\n');
+  throw new Error(`Invalid frontmatter in ${frontmatterErrors.size} file(s):\n${report}`);
+}
+
+function postStatus(frontmatter: Pick<Frontmatter, 'date' | 'draft'>): PostStatus {
+  if (frontmatter.draft === true) {
+    return 'draft';
+  }
+  if (new Date(frontmatter.date).getTime() > Date.now()) {
+    return 'scheduled';
+  }
+  return 'published';
+}
+
+function isoDate(value: unknown): null | string {
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function gitLastModified(file: string): null | string {
+  try {
+    const date = execFileSync('git', ['log', '-1', '--format=%cI', '--', file], {encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore']}).trim();
+    return date === '' ? null : isoDate(date);
+  } catch (e) {
+    return null;
+  }
+}
+
+function postUpdated(frontmatter: Pick<Frontmatter, 'date' | 'updated' | 'changelog'>, file: string): null | string {
+  if (frontmatter.updated !== null && frontmatter.updated !== undefined) {
+    return isoDate(frontmatter.updated);
+  }
+
+  const changes = (Array.isArray(frontmatter.changelog) ? frontmatter.changelog : [])
+    .map(entry => isoDate(entry.date))
+    .filter((date): date is string => date !== null)
+    .sort();
+  if (changes.length > 0) {
+    return changes[changes.length - 1];
+  }
+
+  if (process.env.UPDATED_FROM_GIT !== 'true') {
+    return null;
+  }
+  const published = isoDate(frontmatter.date);
+  const modified = gitLastModified(file);
+  return published !== null && modified !== null && modified.slice(0, 10) > published.slice(0, 10) ? modified : null;
+}
+
+function seriesSlug(title: string): string {
+  return `/series/${slugify(title, {lower: true})}`;
+}
+
+function languageContext(code: string): { language: string, dateFormat: string } {
+  return {language: code, dateFormat: languageInfo(code).dateFormat};
+}
+
+async function queryPostsPerPage(graphql: GraphQL): Promise<number> {
+  const query = `
+      {
+        site {
+          siteMetadata {
+            postsPerPage
           }
         }
       }
     `;
-  const result: BlogPostQueryResult = await graphql(query) as BlogPostQueryResult;
+  const result: SiteQueryResult = await graphql(query) as SiteQueryResult;
 
   if (result.errors) {
     throw result.errors;
   }
 
-  const posts = result.data.allMarkdownRemark.edges;
+  return result.data.site.siteMetadata.postsPerPage;
+}
 
-  posts.forEach(post => {
+function createPaginatedPages(createPage: (page: PageInput) => void, basePath: string, component: string, postCount: number, postsPerPage: number, context: Record<string, unknown>) {
+  const pageCount = Math.max(1, Math.ceil(postCount / postsPerPage));
+  for (let page = 1; page <= pageCount; page++) {
     createPage({
-      path: post.node.fields.slug,
-      component: path.resolve('./src/templates/blog-post/blog-post.tsx'),
+      path: pagePath(basePath, page),
+      component,
       context: {
-        slug: post.node.fields.slug,
-        previous: post.previous,
-        next: post.next,
+        ...context,
+        limit: postsPerPage,
+        skip: (page - 1) * postsPerPage,
+        basePath,
+        currentPage: page,
+        pageCount,
       },
     });
-  });
+  }
+}
+
+async function createIndexPages(graphql: GraphQL, createPage: (page: PageInput) => void, postsPerPage: number) {
+  for (const {code} of languages) {
+    const query = `
+        {
+          allMarkdownRemark(filter: {visible: {eq: true}, fields: {language: {eq: "${code}"}}}) {
+            totalCount
+          }
+        }
+      `;
+    const result: IndexQueryResult = await graphql(query) as IndexQueryResult;
+
+    if (result.errors) {
+      throw result.errors;
+    }
+
+    const count = result.data.allMarkdownRemark.totalCount;
+    if (code === defaultLanguage || count > 0) {
+      createPaginatedPages(createPage, languagePath(code, '/'), path.resolve('./src/templates/index/index.tsx'), count, postsPerPage, languageContext(code));
+    }
+  }
 }
 
-async function createTagPages(graphql: GraphQL, createPage: (page: PageInput) => void) {
+async function queryBlogPosts(graphql: GraphQL, language: string, filter: string): Promise<BlogPost[]> {
+  const {dateFormat} = languageContext(language);
   const query = `
       {
-        allMarkdownRemark {
+        allMarkdownRemark(filter: {visible: {eq: true}, fields: {language: ${filter}}}, sort: {fields: frontmatter___date, order: ASC}) {
           edges {
             node {
+              fields {
+                slug
+                language
+                translationKey
+              }
+              status
               frontmatter {
+                title
+                series {
+                  title
+                  part
+                }
+                date(formatString: "${dateFormat}", locale: "${language}")
                 tags
               }
+              html
             }
           }
         }
       }
     `;
-  const result: TagQueryResult = await graphql(query) as TagQueryResult;
+  const result: BlogPostQueryResult = await graphql(query) as BlogPostQueryResult;
 
   if (result.errors) {
     throw result.errors;
   }
 
-  const tags = new Set<string>();
-  result.data.allMarkdownRemark.edges.forEach(edge => edge.node.frontmatter.tags.forEach(tag => tags.add(tag)));
+  return result.data.allMarkdownRemark.edges.map(edge => edge.node);
+}
+
+async function createBlogPostPages(graphql: GraphQL, createPage: (page: PageInput) => void) {
+  const codes = languages.map(language => language.code);
+  const unknown = (await queryBlogPosts(graphql, defaultLanguage, `{nin: ${JSON.stringify(codes)}}`))
+    .map(post => `${post.fields.slug} is written in unknown language "${post.fields.language}"`);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown post languages:\n${unknown.map(problem => `  ${problem}`).join('\n')}`);
+  }
+
+  const postsByLanguage = new Map<string, BlogPost[]>();
+  for (const code of codes) {
+    postsByLanguage.set(code, await queryBlogPosts(graphql, code, `{eq: "${code}"}`));
+  }
+
+  const translations = new Map<string, Translation[]>();
+  postsByLanguage.forEach(posts => posts.forEach(post => {
+    const key = post.fields.translationKey;
+    translations.set(key, [...(translations.get(key) || []), {language: post.fields.language, slug: post.fields.slug}]);
+  }));
+
+  postsByLanguage.forEach((posts, language) => createLanguagePostPages(createPage, language, posts, translations));
+}
+
+function createLanguagePostPages(createPage: (page: PageInput) => void, language: string, posts: BlogPost[], translations: Map<string, Translation[]>) {
+  const allSeries = groupBySeries(posts);
+  const relatedPosts = rankRelatedPosts(posts.map(post => ({
+    tags: canonicalTags(post.frontmatter.tags),
+    series: post.frontmatter.series === null ? null : post.frontmatter.series.title,
+    text: `${post.frontmatter.title} ${htmlToText(post.html)}`,
+  })), relatedPostCount);
+
+  posts.forEach((post, i) => {
+    const series = post.frontmatter.series;
+    const parts = series === null ? [] : allSeries.get(series.title) || [];
+    const part = (offset: number) => series === null ? undefined : parts.find(p => p.frontmatter.series?.part === series.part + offset);
 
-  tags.forEach(tag => {
-    const slug = `/tag/${slugify(tag, {lower: true})}`;
     createPage({
-      path: slug,
-      component: path.resolve('./src/templates/tag/tag.tsx'),
+      path: post.fields.slug,
+      component: path.resolve('./src/templates/blog-post/blog-post.tsx'),
       context: {
-        tag,
-        slug,
+        ...languageContext(language),
+        slug: post.fields.slug,
+        translations: translations.get(post.fields.translationKey) || [],
+        previous: listEntry(part(-1) ?? posts[i - 1]),
+        next: listEntry(part(1) ?? posts[i + 1]),
+        seriesParts: parts.map(p => ({
+          part: p.frontmatter.series?.part,
+          title: p.frontmatter.title,
+          slug: p.fields.slug,
+        })),
+        relatedPosts: relatedPosts[i].map(j => listEntry(posts[j])),
       },
     });
   });
 }
 
-async function createSeriesPages(graphql: GraphQL, createPage: (page: PageInput) => void) {
+function listEntry(post: undefined | BlogPost) {
+  return post === undefined ? null : {
+    fields: post.fields,
+    status: post.status,
+    frontmatter: post.frontmatter,
+  };
+}
+
+function groupBySeries(posts: BlogPost[]): Map<string, BlogPost[]> {
+  const allSeries = new Map<string, BlogPost[]>();
+  posts.forEach(post => {
+    const series = post.frontmatter.series;
+    if (series !== null) {
+      allSeries.set(series.title, [...(allSeries.get(series.title) || []), post]);
+    }
+  });
+  allSeries.forEach(parts => parts.sort((a, b) => (a.frontmatter.series?.part || 0) - (b.frontmatter.series?.part || 0)));
+  return allSeries;
+}
+
+function seriesProblems(title: string, parts: number[]): string[] {
+  const problems: string[] = [];
+  const max = Math.max(...parts);
+  for (let part = 1; part <= max; part++) {
+    const count = parts.filter(p => p === part).length;
+    if (count === 0) {
+      problems.push(`${title}: missing part ${part}`);
+    } else if (count > 1) {
+      problems.push(`${title}: duplicate part ${part}`);
+    }
+  }
+  parts.filter(part => part < 1).forEach(part => problems.push(`${title}: invalid part ${part}`));
+  return problems;
+}
+
+async function createTagPages(graphql: GraphQL, {createPage, createRedirect}: BoundActionCreators, postsPerPage: number) {
   const query = `
       {
-        allMarkdownRemark {
+        allMarkdownRemark(filter: {visible: {eq: true}, fields: {language: {eq: "${defaultLanguage}"}}}) {
           edges {
             node {
               frontmatter {
-                series {
-                  title
-                  part
-                }
+                tags
               }
             }
           }
         }
       }
     `;
-  const result: SeriesQueryResult = await graphql(query) as SeriesQueryResult;
+  const result: TagQueryResult = await graphql(query) as TagQueryResult;
 
   if (result.errors) {
     throw result.errors;
   }
 
-  const allSeries: Series[] = [];
+  const tags = new Map<string, { count: number, names: Set<string> }>();
   result.data.allMarkdownRemark.edges.forEach(edge => {
-    const series: Series = edge.node.frontmatter.series;
-    if (series !== null && series !== undefined) {
-      if (allSeries.find(s => util.isDeepStrictEqual(s, series)) !== undefined) {
-        throw new Error(`Duplicate series part: ${JSON.stringify(series)}`);
+    canonicalTags(edge.node.frontmatter.tags).forEach(tag => {
+      const entry = tags.get(tag) || {count: 0, names: new Set<string>()};
+      entry.count++;
+      tags.set(tag, entry);
+    });
+    edge.node.frontmatter.tags.forEach(name => {
+      const entry = tags.get(canonicalTag(name));
+      if (entry !== undefined) {
+        entry.names.add(name);
       }
-      allSeries.push(series);
-    }
+    });
   });
 
-  allSeries.forEach(series => {
-    const slug = `/series/${slugify(series.title, {lower: true})}`;
-    createPage({
-      path: slug,
-      component: path.resolve('./src/templates/series/series.tsx'),
-      context: {
-        series___title: series.title,
-        series___part: series.part,
-        slug,
-      },
+  tags.forEach(({count, names}, tag) => {
+    const slug = tagSlug(tag);
+    createPaginatedPages(createPage, slug, path.resolve('./src/templates/tag/tag.tsx'), count, postsPerPage, {
+      ...languageContext(defaultLanguage),
+      tag,
+      names: Array.from(names),
+      slug,
     });
+
+    tagAliasSlugs(tag).forEach(alias => createRedirect({
+      fromPath: alias,
+      toPath: slug,
+      isPermanent: true,
+      redirectInBrowser: true,
+    }));
   });
 }
 
-exports.createPages = async ({graphql, actions}: CreatePages) => {
-  const {createPage} = actions;
-  await createBlogPostPages(graphql, createPage);
-  await createTagPages(graphql, createPage);
-  await createSeriesPages(graphql, createPage);
+async function createAuthorPages(graphql: GraphQL, createPage: (page: PageInput) => void, postsPerPage: number) {
+  const query = `
+      {
+        allMarkdownRemark {
+          nodes {
+            fields {
+              authors
+              language
+            }
+            visible
+            frontmatter {
+              title
+            }
+          }
+        }
+      }
+    `;
+  const result: AuthorQueryResult = await graphql(query) as AuthorQueryResult;
+
+  if (result.errors) {
+    throw result.errors;
+  }
+
+  const posts = result.data.allMarkdownRemark.nodes;
+  const unknown = ([] as string[]).concat(...posts.map(post => post.fields.authors
+    .filter(author => !isKnownAuthor(author))
+    .map(author => `"${post.frontmatter.title}" is written by unknown author "${author}"`)));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown post authors:\n${unknown.map(problem => `  ${problem}`).join('\n')}`);
+  }
+
+  const counts = new Map<string, number>();
+  posts.filter(post => post.visible && post.fields.language === defaultLanguage).forEach(post => post.fields.authors.forEach(author => {
+    counts.set(author, (counts.get(author) || 0) + 1);
+  }));
+
+  counts.forEach((count, author) => {
+    const slug = authorSlug(author);
+    createPaginatedPages(createPage, slug, path.resolve('./src/templates/author/author.tsx'), count, postsPerPage, {
+      ...languageContext(defaultLanguage),
+      author,
+      slug,
+    });
+  });
+}
+
+async function createPermalinkRedirects(graphql: GraphQL, createRedirect: BoundActionCreators['createRedirect']) {
+  const query = `
+      {
+        allMarkdownRemark {
+          nodes {
+            fields {
+              slug
+              aliases
+              guid
+            }
+            visible
+            frontmatter {
+              title
+            }
+          }
+        }
+      }
+    `;
+  const result: PermalinkQueryResult = await graphql(query) as PermalinkQueryResult;
+
+  if (result.errors) {
+    throw result.errors;
+  }
+
+  const posts = result.data.allMarkdownRemark.nodes;
+  const problems = permalinkProblems(posts.map((post): Permalink => ({
+    title: post.frontmatter.title,
+    slug: post.fields.slug,
+    aliases: post.fields.aliases,
+    guid: post.fields.guid,
+  })));
+  if (problems.length > 0) {
+    throw new Error(`Conflicting post permalinks:\n${problems.map(problem => `  ${problem}`).join('\n')}`);
+  }
+
+  posts.filter(post => post.visible).forEach(post => post.fields.aliases.forEach(alias => createRedirect({
+    fromPath: alias,
+    toPath: post.fields.slug,
+    isPermanent: true,
+    redirectInBrowser: true,
+  })));
+}
+
+async function createSeriesPages(graphql: GraphQL, createPage: (page: PageInput) => void, postsPerPage: number) {
+  const query = `
+      {
+        allMarkdownRemark(filter: {visible: {eq: true}, fields: {language: {eq: "${defaultLanguage}"}}}) {
+          edges {
+            node {
+              fields {
+                slug
+              }
+              frontmatter {
+                series {
+                  title
+                  part
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+  const result: SeriesQueryResult = await graphql(query) as SeriesQueryResult;
+
+  if (result.errors) {
+    throw result.errors;
+  }
+
+  const allSeries = new Map<string, { part: number, slug: string }[]>();
+  result.data.allMarkdownRemark.edges.forEach(edge => {
+    const series = edge.node.frontmatter.series;
+    if (series !== null) {
+      allSeries.set(series.title, [...(allSeries.get(series.title) || []), {part: series.part, slug: edge.node.fields.slug}]);
+    }
+  });
+
+  const problems: string[] = [];
+  allSeries.forEach((parts, title) => problems.push(...seriesProblems(title, parts.map(p => p.part))));
+  if (problems.length > 0) {
+    throw new Error(`Invalid series parts:\n${problems.map(problem => `  ${problem}`).join('\n')}`);
+  }
+
+  allSeries.forEach((parts, title) => {
+    const slug = seriesSlug(title);
+    const info = seriesInfo.find(s => s.title === title);
+    const pageCount = Math.max(1, Math.ceil(parts.length / postsPerPage));
+    const pages = Array.from({length: pageCount}, (_, i) => pagePath(slug, i + 1));
+    createPaginatedPages(createPage, slug, path.resolve('./src/templates/series/series.tsx'), parts.length, postsPerPage, {
+      ...languageContext(defaultLanguage),
+      series___title: title,
+      description: info === undefined ? null : info.description,
+      partCount: parts.length,
+      offlinePaths: [...pages, ...parts.sort((a, b) => a.part - b.part).map(p => p.slug)],
+      slug,
+    });
+  });
+}
+
+async function createArchivePages(graphql: GraphQL, createPage: (page: PageInput) => void) {
+  const query = `
+      {
+        allMarkdownRemark(filter: {visible: {eq: true}, fields: {language: {eq: "${defaultLanguage}"}}}) {
+          nodes {
+            frontmatter {
+              date
+            }
+          }
+        }
+      }
+    `;
+  const result: ArchiveQueryResult = await graphql(query) as ArchiveQueryResult;
+
+  if (result.errors) {
+    throw result.errors;
+  }
+
+  const component = path.resolve('./src/templates/archive/archive.tsx');
+  const months = new Set(result.data.allMarkdownRemark.nodes.map(node => node.frontmatter.date.slice(0, 7)));
+  const years = new Set(Array.from(months).map(month => month.slice(0, 4)));
+
+  createPage({
+    path: '/archive',
+    component,
+    context: {
+      ...languageContext(defaultLanguage),
+      start: '0000',
+      end: '9999',
+      groupBy: 'year',
+      period: null,
+    },
+  });
+
+  years.forEach(year => createPage({
+    path: `/archive/${year}`,
+    component,
+    context: {
+      ...languageContext(defaultLanguage),
+      start: year,
+      end: `${Number(year) + 1}`,
+      groupBy: 'month',
+      period: year,
+    },
+  }));
+
+  months.forEach(month => {
+    const [year, number] = month.split('-').map(Number);
+    createPage({
+      path: `/archive/${month.replace('-', '/')}`,
+      component,
+      context: {
+        ...languageContext(defaultLanguage),
+        start: month,
+        end: number === 12 ? `${year + 1}-01` : `${year}-${String(number + 1).padStart(2, '0')}`,
+        groupBy: 'month',
+        period: month,
+      },
+    });
+  });
+}
+
+async function createSearchIndex(graphql: GraphQL) {
+  const query = `
+      {
+        allMarkdownRemark(filter: {visible: {eq: true}, fields: {language: {eq: "${defaultLanguage}"}}}, sort: {fields: frontmatter___date, order: DESC}) {
+          edges {
+            node {
+              fields {
+                slug
+              }
+              frontmatter {
+                title
+                date(formatString: "${languageInfo(defaultLanguage).dateFormat}")
+                tags
+                series {
+                  title
+                  part
+                }
+              }
+              headings {
+                value
+              }
+              html
+            }
+          }
+        }
+      }
+    `;
+  const result: SearchQueryResult = await graphql(query) as SearchQueryResult;
+
+  if (result.errors) {
+    throw result.errors;
+  }
+
+  const documents: SearchDocument[] = result.data.allMarkdownRemark.edges.map(({node}) => ({
+    slug: node.fields.slug,
+    title: node.frontmatter.title,
+    date: node.frontmatter.date,
+    headings: node.headings.map(heading => heading.value),
+    body: htmlToText(node.html),
+    tags: canonicalTags(node.frontmatter.tags),
+    series: node.frontmatter.series === null ? null : node.frontmatter.series.title,
+  }));
+
+  const file = path.join(process.cwd(), 'public', searchIndexPath);
+  fs.mkdirSync(path.dirname(file), {recursive: true});
+  fs.writeFileSync(file, JSON.stringify(documents));
+}
+
+async function writeFeeds(graphql: GraphQL) {
+  const query = `
+      {
+        site {
+          siteMetadata {
+            title
+            siteUrl
+          }
+        }
+        allMarkdownRemark(filter: {visible: {eq: true}}, sort: {fields: frontmatter___date, order: DESC}) {
+          edges {
+            node {
+              fields {
+                slug
+                guid
+                updated
+                authors
+                language
+              }
+              frontmatter {
+                title
+                date
+                tags
+                series {
+                  title
+                  part
+                }
+              }
+              summary
+              html
+            }
+          }
+        }
+      }
+    `;
+  const result: FeedQueryResult = await graphql(query) as FeedQueryResult;
+
+  if (result.errors) {
+    throw result.errors;
+  }
+
+  const {title: siteTitle, siteUrl} = result.data.site.siteMetadata;
+  const posts = result.data.allMarkdownRemark.edges.map(edge => edge.node);
+  const feeds = new Map<string, { title: string, description: string, language: string, posts: FeedPost[] }>();
+  const addToFeed = (slug: string, title: string, description: string, post: FeedPost) => {
+    const feed = feeds.get(slug) || {title, description, language: post.fields.language, posts: []};
+    feed.posts.push(post);
+    feeds.set(slug, feed);
+  };
+  posts.forEach(post => {
+    if (post.fields.language !== defaultLanguage) {
+      const {feed} = uiStrings(post.fields.language);
+      addToFeed(languagePath(post.fields.language, '/'), `${siteTitle} - ${feed.title}`, feed.description, post);
+      return;
+    }
+    canonicalTags(post.frontmatter.tags).forEach(tag => {
+      const {displayName} = tagInfo(tag);
+      addToFeed(tagSlug(tag), `${siteTitle} - #${displayName}`, `Posts tagged #${displayName}`, post);
+    });
+    const series = post.frontmatter.series;
+    if (series !== null) {
+      addToFeed(seriesSlug(series.title), `${siteTitle} - ${series.title}`, `Posts in the ${series.title} series`, post);
+    }
+  });
+
+  feeds.forEach((entry, slug) => {
+    const feed: Feed = {
+      title: entry.title,
+      description: entry.description,
+      language: entry.language,
+      siteUrl: siteUrl + slug,
+      feedUrls: {
+        rss: siteUrl + feedPath(slug, 'rss'),
+        atom: siteUrl + feedPath(slug, 'atom'),
+        json: siteUrl + feedPath(slug, 'json'),
+      },
+      items: entry.posts.map(post => ({
+        title: (post.frontmatter.series === null ? '' : post.frontmatter.series.title + ': ') + post.frontmatter.title,
+        url: siteUrl + post.fields.slug,
+        guid: siteUrl + post.fields.guid,
+        date: post.frontmatter.date,
+        updated: post.fields.updated,
+        authors: post.fields.authors.map(author => ({name: authorInfo(author).name, url: siteUrl + authorSlug(author)})),
+        description: post.summary,
+        content: post.html,
+      })),
+    };
+
+    feedFormats.forEach(format => {
+      const file = path.join(process.cwd(), 'public', feedPath(slug, format));
+      fs.mkdirSync(path.dirname(file), {recursive: true});
+      fs.writeFileSync(file, feedRenderers[format](feed));
+    });
+  });
+}
+
+function firstPostImage(dir: string, markdown: string): null | string {
+  const file = markdownImages(markdown)
+    .filter(image => !isExternalUrl(image))
+    .map(image => safeDecode(decodeURI, image))
+    .filter((image): image is string => image !== null)
+    .map(image => path.resolve(dir, image))
+    .find(image => /\.(png|jpe?g|webp)$/i.test(image) && image.startsWith(dir + path.sep) && fs.existsSync(image));
+  return file === undefined ? null : file;
+}
+
+async function writeSocialImages(graphql: GraphQL) {
+  for (const {code, dateFormat} of languages) {
+    await writeLanguageSocialImages(graphql, code, dateFormat);
+  }
+}
+
+async function writeLanguageSocialImages(graphql: GraphQL, language: string, dateFormat: string) {
+  const query = `
+      {
+        site {
+          siteMetadata {
+            title
+            backgroundColor
+            themeColor
+          }
+        }
+        allMarkdownRemark(filter: {visible: {eq: true}, fields: {language: {eq: "${language}"}}}) {
+          edges {
+            node {
+              fields {
+                slug
+              }
+              frontmatter {
+                title
+                date(formatString: "${dateFormat}", locale: "${language}")
+                tags
+                series {
+                  title
+                  part
+                }
+              }
+              rawMarkdownBody
+              parent {
+                ... on File {
+                  dir
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+  const result: SocialImageQueryResult = await graphql(query) as SocialImageQueryResult;
+
+  if (result.errors) {
+    throw result.errors;
+  }
+
+  const {title, backgroundColor, themeColor} = result.data.site.siteMetadata;
+  for (const {node} of result.data.allMarkdownRemark.edges) {
+    const image = await renderSocialImage({
+      siteTitle: title,
+      title: node.frontmatter.title,
+      series: node.frontmatter.series,
+      tags: canonicalTags(node.frontmatter.tags).map(tag => tagInfo(tag).displayName),
+      date: node.frontmatter.date,
+      language,
+      backgroundColor,
+      themeColor,
+      postImage: firstPostImage(node.parent.dir, node.rawMarkdownBody),
+    });
+    const file = path.join(process.cwd(), 'public', socialImagePath(node.fields.slug));
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, image);
+  }
+}
+
+async function writeRedirectPages(graphql: GraphQL) {
+  const query = `
+      {
+        site {
+          siteMetadata {
+            siteUrl
+          }
+        }
+        allMarkdownRemark(filter: {visible: {eq: true}}) {
+          nodes {
+            fields {
+              slug
+              aliases
+              language
+            }
+            frontmatter {
+              tags
+            }
+          }
+        }
+      }
+    `;
+  const result: RedirectPageQueryResult = await graphql(query) as RedirectPageQueryResult;
+
+  if (result.errors) {
+    throw result.errors;
+  }
+
+  const siteUrl = result.data.site.siteMetadata.siteUrl;
+  const writeRedirect = (alias: string, slug: string) => {
+    const file = path.join(process.cwd(), 'public', alias, 'index.html');
+    if (fs.existsSync(file)) {
+      throw new Error(`Alias ${alias} of ${slug} collides with an existing page`);
+    }
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, redirectPage(siteUrl, slug));
+  };
+
+  const posts = result.data.allMarkdownRemark.nodes;
+  posts.forEach(({fields: {slug, aliases}}) => aliases.forEach(alias => writeRedirect(alias, slug)));
+
+  const tags = new Set(([] as string[]).concat(...posts
+    .filter(post => post.fields.language === defaultLanguage)
+    .map(post => canonicalTags(post.frontmatter.tags))));
+  tags.forEach(tag => tagAliasSlugs(tag).forEach(alias => writeRedirect(alias, tagSlug(tag))));
+}
+
+function writeServiceWorker() {
+  const publicDir = path.join(process.cwd(), 'public');
+  const precache = appShellUrls(publicDir);
+  fs.writeFileSync(path.join(publicDir, serviceWorkerPath), serviceWorkerScript(appShellVersion(publicDir, precache), precache));
+}
+
+async function checkLinks(graphql: GraphQL) {
+  const query = `
+      {
+        site {
+          siteMetadata {
+            siteUrl
+          }
+        }
+        allSitePage {
+          nodes {
+            path
+          }
+        }
+        allMarkdownRemark(filter: {visible: {eq: true}}) {
+          nodes {
+            rawMarkdownBody
+            parent {
+              ... on File {
+                dir
+                absolutePath
+              }
+            }
+          }
+        }
+      }
+    `;
+  const result: LinkCheckQueryResult = await graphql(query) as LinkCheckQueryResult;
+
+  if (result.errors) {
+    throw result.errors;
+  }
+
+  const pages = new Set(result.data.allSitePage.nodes.map(page => normalizePath(page.path)));
+  const broken: BrokenReference[] = [];
+  result.data.allMarkdownRemark.nodes.forEach(node => {
+    const source = path.relative(process.cwd(), node.parent.absolutePath);
+    broken.push(...checkMarkdownImages(source, node.parent.dir, node.rawMarkdownBody));
+  });
+  broken.push(...checkGeneratedPages(
+    path.join(process.cwd(), 'public'),
+    result.data.site.siteMetadata.siteUrl,
+    pages,
+    process.env.CHECK_EXTERNAL_LINKS === 'true' ? externalLinkAllowlist : null,
+  ));
+
+  if (broken.length > 0) {
+    throw new Error(`Found ${broken.length} broken reference(s):\n${formatBrokenReferences(broken)}`);
+  }
+}
+
+async function checkSourceSnippets(graphql: GraphQL, checkouts: string) {
+  const query = `
+      {
+        allMarkdownRemark(filter: {visible: {eq: true}}) {
+          nodes {
+            rawMarkdownBody
+            frontmatter {
+              source {
+                repository
+                commit
+              }
+            }
+            parent {
+              ... on File {
+                absolutePath
+              }
+            }
+          }
+        }
+      }
+    `;
+  const result: SourceSnippetQueryResult = await graphql(query) as SourceSnippetQueryResult;
+
+  if (result.errors) {
+    throw result.errors;
+  }
+
+  const problems = new Map<string, string[]>();
+  result.data.allMarkdownRemark.nodes.forEach(node => {
+    const source = node.frontmatter.source;
+    if (source === null) {
+      return;
+    }
+
+    const checkout = sourceCheckout(checkouts, source);
+    const file = path.relative(process.cwd(), node.parent.absolutePath);
+    sourceSnippets(node.rawMarkdownBody).forEach(snippet => {
+      const problem = checkSourceSnippet(checkout, source, snippet);
+      if (problem !== null) {
+        problems.set(file, [...(problems.get(file) || []), problem]);
+      }
+    });
+  });
+
+  if (problems.size > 0) {
+    const report = Array.from(problems.entries())
+      .sort(([a,], [b,]) => a.localeCompare(b))
+      .map(([file, fileProblems]) => [`  ${file}`, ...fileProblems.map(problem => `    ${problem}`)].join('\n'))
+      .join('\n');
+    throw new Error(`Found code blocks that do not match their source:\n${report}`);
+  }
+}
+
+exports.createSchemaCustomization = ({actions}: CreateSchemaCustomization) => {
+  const {createTypes} = actions;
+  createTypes(frontmatterTypeDefs());
+};
+
+async function resolveField(source: Node, field: string, args: Record<string, unknown>, context: unknown, info: ResolveInfo): Promise<string> {
+  const resolver = info.schema.getType('MarkdownRemark').getFields()[field];
+  return await resolver.resolve(source, args, context, info) as string;
+}
+
+exports.createResolvers = ({createResolvers}: CreateResolvers) => {
+  createResolvers({
+    MarkdownRemark: {
+      summary: {
+        type: 'String!',
+        resolve: async (source, args, context, info) => {
+          const {description} = source.frontmatter as Frontmatter;
+          if (description !== null && description !== undefined) {
+            return description;
+          }
+
+          return resolveField(source, 'excerpt', {format: 'PLAIN', pruneLength: summaryLength, truncate: false}, context, info);
+        },
+      },
+      thumbnail: {
+        type: 'String',
+        resolve: async (source, args, context, info) => firstImage(await resolveField(source, 'html', {}, context, info)),
+      },
+      status: {
+        type: 'String!',
+        resolve: async source => postStatus(source.frontmatter as Frontmatter),
+      },
+      visible: {
+        type: 'Boolean!',
+        resolve: async source => postStatus(source.frontmatter as Frontmatter) === 'published' || process.env.NODE_ENV !== 'production',
+      },
+    },
+  });
+};
+
+exports.createPages = async ({graphql, actions}: CreatePages) => {
+  const {createPage} = actions;
+  reportFrontmatterErrors();
+
+  const tagProblems = tagRegistryProblems();
+  if (tagProblems.length > 0) {
+    throw new Error(`Invalid tag registry:\n${tagProblems.map(problem => `  ${problem}`).join('\n')}`);
+  }
+
+  const authorProblems = authorRegistryProblems();
+  if (authorProblems.length > 0) {
+    throw new Error(`Invalid author registry:\n${authorProblems.map(problem => `  ${problem}`).join('\n')}`);
+  }
+
+  const languageProblems = languageRegistryProblems();
+  if (languageProblems.length > 0) {
+    throw new Error(`Invalid language registry:\n${languageProblems.map(problem => `  ${problem}`).join('\n')}`);
+  }
+
+  const postsPerPage = await queryPostsPerPage(graphql);
+  await createIndexPages(graphql, createPage, postsPerPage);
+  await createBlogPostPages(graphql, createPage);
+  await createPermalinkRedirects(graphql, actions.createRedirect);
+  await createTagPages(graphql, actions, postsPerPage);
+  await createAuthorPages(graphql, createPage, postsPerPage);
+  await createSeriesPages(graphql, createPage, postsPerPage);
+  await createArchivePages(graphql, createPage);
+  await createSearchIndex(graphql);
+};
+
+exports.onCreatePage = ({page, actions}: CreatePage) => {
+  const {createPage, deletePage} = actions;
+  const context = page.context as undefined | Record<string, unknown>;
+  if (context !== undefined && context.language !== undefined) {
+    return;
+  }
+
+  deletePage(page);
+  createPage({...page, context: {...context, ...languageContext(defaultLanguage)}});
+
+  if (page.path === '/404/') {
+    languages.filter(({code}) => code !== defaultLanguage).forEach(({code}) => createPage({
+      ...page,
+      path: languagePath(code, '/404/'),
+      matchPath: languagePath(code, '/*'),
+      context: {...context, ...languageContext(code)},
+    }));
+  }
+};
+
+exports.onPostBuild = async ({graphql}: PostBuild) => {
+  await writeFeeds(graphql);
+  await writeSocialImages(graphql);
+  await writeRedirectPages(graphql);
+  writeServiceWorker();
+  if (process.env.SOURCE_CHECKOUTS !== undefined) {
+    await checkSourceSnippets(graphql, process.env.SOURCE_CHECKOUTS);
+  }
+  await checkLinks(graphql);
 };
 
 exports.onCreateNode = ({node, getNode, actions}: CreateNode) => {
   const {createNodeField} = actions;
   if (node.internal.type === 'MarkdownRemark') {
-    const slug = createFilePath({node, getNode, basePath: 'src/posts'});
+    checkFrontmatter(node, getNode);
+
+    const frontmatter = node.frontmatter as Frontmatter;
+    const translation = fileLanguage(getNode(node.parent).name as string);
+    const language = translation === null ? defaultLanguage : translation;
+    const filePath = createFilePath({node, getNode, basePath: 'src/posts'});
+    const translationKey = `/post${translation === null ? filePath : filePath.replace(new RegExp(`(/index)?\\.${translation}/$`), '/')}`;
+    const slug = languagePath(language, typeof frontmatter.slug === 'string' ? normalizeSlug(frontmatter.slug) : translationKey);
+    const aliases = Array.isArray(frontmatter.aliases) ? frontmatter.aliases.map(alias => languagePath(language, normalizeSlug(alias))) : [];
     createNodeField({
       node,
       name: 'slug',
-      value: `/post${slug}`,
+      value: slug,
+    });
+    createNodeField({
+      node,
+      name: 'language',
+      value: language,
     });
+    createNodeField({
+      node,
+      name: 'translationKey',
+      value: translationKey,
+    });
+    createNodeField({
+      node,
+      name: 'aliases',
+      value: aliases,
+    });
+    createNodeField({
+      node,
+      name: 'guid',
+      value: typeof frontmatter.guid === 'string' ? languagePath(language, normalizeSlug(frontmatter.guid)) : aliases.length > 0 ? aliases[0] : slug,
+    });
+
+    createNodeField({
+      node,
+      name: 'authors',
+      value: postAuthors(Array.isArray(frontmatter.authors) ? frontmatter.authors : null),
+    });
+    createNodeField({
+      node,
+      name: 'updated',
+      value: postUpdated(frontmatter, getNode(node.parent).absolutePath as string),
+    });
+  }
+};
+
+exports.onDeleteNode = ({node}: DeleteNode) => {
+  if (node.internal.type === 'MarkdownRemark') {
+    frontmatterErrors.delete(node.id);
   }
 };
\ No newline at end of file
@@ -0,0 +1,19 @@
+import React from 'react';
+import {ResolvedTheme, schemeQueries, themeColors, themeScript} from '../src/utils/theme';
+
+type RenderBody = {
+  setHeadComponents: (components: React.ReactNode[]) => void;
+  setPreBodyComponents: (components: React.ReactNode[]) => void;
+};
+
+const schemes: ResolvedTheme[] = ['light', 'dark'];
+
+exports.onRenderBody = ({setHeadComponents, setPreBodyComponents}: RenderBody) => {
+  setHeadComponents(schemes.map(scheme => {
+    const attributes = {name: 'theme-color', media: schemeQueries[scheme], content: themeColors[scheme].theme};
+    return <meta key={`theme-color-${scheme}`} {...attributes}/>;
+  }));
+  setPreBodyComponents([
+    <script key="theme" dangerouslySetInnerHTML={{__html: themeScript()}}/>,
+  ]);
+};
\ No newline at end of file
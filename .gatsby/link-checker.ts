@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import {isExternalUrl, markdownImages, safeDecode} from './markdown-images';
+
+export type BrokenReference = {
+  source: string;
+  reference: string;
+  reason: string;
+};
+
+type HtmlPage = {
+  path: string;
+  file: string;
+};
+
+const linkPattern = /<a\s[^>]*?href="([^"]*)"/g;
+const imagePattern = /<img\s[^>]*?src="([^"]*)"/g;
+const idPattern = /\s(?:id|name)="([^"]*)"/g;
+
+export function checkMarkdownImages(source: string, dir: string, markdown: string): BrokenReference[] {
+  return markdownImages(markdown)
+    .filter(image => !isExternalUrl(image))
+    .map(image => ({image, file: safeDecode(decodeURI, image)}))
+    .filter(({file}) => file === null || !fs.existsSync(path.resolve(dir, file)))
+    .map(({image, file}) => ({source, reference: image, reason: file === null ? 'malformed percent-encoding' : 'image does not exist in the post directory'}));
+}
+
+export function checkGeneratedPages(publicDir: string, siteUrl: string, pages: Set<string>, externalAllowlist: null | string[]): BrokenReference[] {
+  const ids = new Map<string, Set<string>>();
+  const idsOf = (file: string) => {
+    let fileIds = ids.get(file);
+    if (fileIds === undefined) {
+      fileIds = new Set(matches(idPattern, fs.readFileSync(file, 'utf8')));
+      ids.set(file, fileIds);
+    }
+    return fileIds;
+  };
+
+  const broken: BrokenReference[] = [];
+  htmlPages(publicDir).forEach(page => {
+    const html = fs.readFileSync(page.file, 'utf8');
+    const references = [...matches(linkPattern, html), ...matches(imagePattern, html)];
+    new Set(references).forEach(reference => {
+      const local = reference.startsWith(siteUrl) ? reference.slice(siteUrl.length) || '/' : reference;
+      const reason = isExternalUrl(local)
+        ? checkExternal(local, externalAllowlist)
+        : checkInternal(local, page, publicDir, pages, idsOf);
+      if (reason !== null) {
+        broken.push({source: page.path, reference, reason});
+      }
+    });
+  });
+  return broken;
+}
+
+export function normalizePath(pathname: string): string {
+  return pathname.length > 1 && pathname.endsWith('/') ? pathname.slice(0, -1) : pathname;
+}
+
+export function formatBrokenReferences(broken: BrokenReference[]): string {
+  const bySource = new Map<string, BrokenReference[]>();
+  broken.forEach(reference => bySource.set(reference.source, [...(bySource.get(reference.source) || []), reference]));
+  return Array.from(bySource.entries())
+    .sort(([a,], [b,]) => a.localeCompare(b))
+    .map(([source, references]) => [`  ${source}`, ...references.map(r => `    ${r.reference}: ${r.reason}`)].join('\n'))
+    .join('\n');
+}
+
+function checkInternal(reference: string, page: HtmlPage, publicDir: string, pages: Set<string>, idsOf: (file: string) => Set<string>): null | string {
+  const url = new URL(reference, `http://localhost${page.path}`);
+  const pathname = safeDecode(decodeURIComponent, url.pathname);
+  if (pathname === null) {
+    return 'malformed percent-encoding in path';
+  }
+  const file = targetFile(publicDir, pathname);
+
+  if (!pages.has(normalizePath(pathname)) && file === null) {
+    return 'target does not exist';
+  }
+
+  const fragment = safeDecode(decodeURIComponent, url.hash.slice(1));
+  if (fragment === null) {
+    return 'malformed percent-encoding in fragment';
+  }
+  if (fragment !== '' && (file === null || !idsOf(file).has(fragment))) {
+    return `fragment #${fragment} does not exist on ${pathname}`;
+  }
+  return null;
+}
+
+function checkExternal(reference: string, externalAllowlist: null | string[]): null | string {
+  if (externalAllowlist === null || !/^https?:/.test(reference)) {
+    return null;
+  }
+  return externalAllowlist.some(prefix => reference.startsWith(prefix)) ? null : 'external url is not in the allowlist';
+}
+
+function targetFile(publicDir: string, pathname: string): null | string {
+  const file = path.join(publicDir, pathname);
+  const candidates = pathname.endsWith('/') ? [path.join(file, 'index.html')] : [file, path.join(file, 'index.html')];
+  const found = candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+  return found === undefined ? null : found;
+}
+
+function htmlPages(dir: string, publicDir: string = dir): HtmlPage[] {
+  return fs.readdirSync(dir, {withFileTypes: true}).reduce((pages: HtmlPage[], entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return [...pages, ...htmlPages(file, publicDir)];
+    }
+    if (!entry.name.endsWith('.html')) {
+      return pages;
+    }
+    const relative = '/' + path.relative(publicDir, file).split(path.sep).join('/');
+    return [...pages, {path: relative.replace(/index\.html$/, ''), file}];
+  }, []);
+}
+
+function matches(pattern: RegExp, text: string): string[] {
+  const found: string[] = [];
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    found.push(decodeEntities(match[1]));
+  }
+  pattern.lastIndex = 0;
+  return found;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;/g, '\'')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+const imagePattern = /!\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+export function markdownImages(markdown: string): string[] {
+  const images: string[] = [];
+  let match;
+  while ((match = imagePattern.exec(markdown)) !== null) {
+    images.push(match[1]);
+  }
+  imagePattern.lastIndex = 0;
+  return images;
+}
+
+export function isExternalUrl(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('//');
+}
+
+export function safeDecode(decode: (text: string) => string, text: string): null | string {
+  try {
+    return decode(text);
+  } catch (e) {
+    return null;
+  }
+}
\ No newline at end of file
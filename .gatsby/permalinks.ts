@@ -0,0 +1,51 @@
+import {escapeMarkup} from './escape-markup';
+
+export type Permalink = {
+  title: string;
+  slug: string;
+  aliases: string[];
+  guid: string;
+};
+
+export function normalizeSlug(slug: string): string {
+  const trimmed = slug.trim().replace(/^\/+|\/+$/g, '');
+  return trimmed === '' ? '/' : `/${trimmed}/`;
+}
+
+export function permalinkProblems(permalinks: Permalink[]): string[] {
+  const owners = new Map<string, string[]>();
+  const claim = (path: string, owner: string) => owners.set(path, [...(owners.get(path) || []), owner]);
+  permalinks.forEach(permalink => {
+    claim(permalink.slug, `slug of "${permalink.title}"`);
+    permalink.aliases.forEach(alias => claim(alias, `alias of "${permalink.title}"`));
+  });
+
+  const problems: string[] = [];
+  permalinks
+    .filter(permalink => permalink.slug !== permalink.guid && permalink.aliases.indexOf(permalink.guid) === -1)
+    .forEach(permalink => problems.push(`GUID ${permalink.guid} of "${permalink.title}" is neither its slug nor one of its aliases`));
+  owners.forEach((claims, path) => {
+    if (claims.length > 1) {
+      problems.push(`${path} is used as ${claims.join(' and ')}`);
+    }
+  });
+  return problems;
+}
+
+export function redirectPage(siteUrl: string, toPath: string): string {
+  const url = escapeMarkup(siteUrl + toPath);
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Redirecting…</title>
+    <link rel="canonical" href="${url}">
+    <meta name="robots" content="noindex">
+    <meta http-equiv="refresh" content="0; url=${url}">
+  </head>
+  <body>
+    <p>This page has moved to <a href="${url}">${url}</a>.</p>
+  </body>
+</html>
+`;
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+import {tokenize} from '../src/utils/search';
+
+export type RelatedDocument = {
+  tags: string[];
+  series: null | string;
+  text: string;
+};
+
+const weights = {
+  tags: 1,
+  series: 1,
+  text: 3,
+};
+
+type Vector = Map<string, number>;
+
+export function rankRelatedPosts(documents: RelatedDocument[], count: number): number[][] {
+  const tagWeights = inverseDocumentFrequencies(documents.map(document => document.tags));
+  const termWeights = inverseDocumentFrequencies(documents.map(document => tokenize(document.text)));
+  const vectors = documents.map(document => termVector(tokenize(document.text), termWeights));
+
+  return documents.map((document, i) => documents
+    .map((other, j) => ({
+      index: j,
+      score: i === j ? 0 : score(document, other, vectors[i], vectors[j], tagWeights),
+    }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(candidate => candidate.index));
+}
+
+function score(document: RelatedDocument, other: RelatedDocument, vector: Vector, otherVector: Vector, tagWeights: Map<string, number>): number {
+  const sharedTags = document.tags
+    .filter(tag => other.tags.includes(tag))
+    .reduce((sum, tag) => sum + (tagWeights.get(tag) || 0), 0);
+  const sameSeries = document.series !== null && document.series === other.series ? 1 : 0;
+  return weights.tags * sharedTags + weights.series * sameSeries + weights.text * cosineSimilarity(vector, otherVector);
+}
+
+function inverseDocumentFrequencies(documents: string[][]): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  documents.forEach(terms => new Set(terms).forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1)));
+
+  const weights = new Map<string, number>();
+  frequencies.forEach((frequency, term) => weights.set(term, Math.log(documents.length / frequency)));
+  return weights;
+}
+
+function termVector(terms: string[], termWeights: Map<string, number>): Vector {
+  const vector: Vector = new Map();
+  terms.forEach(term => vector.set(term, (vector.get(term) || 0) + (termWeights.get(term) || 0)));
+  return vector;
+}
+
+function cosineSimilarity(a: Vector, b: Vector): number {
+  let dot = 0;
+  a.forEach((value, term) => dot += value * (b.get(term) || 0));
+  const magnitude = norm(a) * norm(b);
+  return magnitude === 0 ? 0 : dot / magnitude;
+}
+
+function norm(vector: Vector): number {
+  let sum = 0;
+  vector.forEach(value => sum += value * value);
+  return Math.sqrt(sum);
+}
\ No newline at end of file
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import {createHash} from 'crypto';
+import {offlinePagePath, pageDataPath} from '../src/utils/offline';
+
+const shellFilePattern = /^[\w.-]+\.(js|css)$/;
+
+function publicFile(publicDir: string, url: string): string {
+  return path.join(publicDir, url.endsWith('/') ? url + 'index.html' : url);
+}
+
+export function appShellUrls(publicDir: string): string[] {
+  const assets = fs.readdirSync(publicDir)
+    .filter(file => shellFilePattern.test(file) && fs.statSync(path.join(publicDir, file)).isFile())
+    .map(file => `/${file}`);
+  return ['/', offlinePagePath, pageDataPath('/'), pageDataPath(offlinePagePath), '/page-data/app-data.json', '/manifest.webmanifest', ...assets]
+    .filter(url => fs.existsSync(publicFile(publicDir, url)))
+    .sort();
+}
+
+export function appShellVersion(publicDir: string, urls: string[]): string {
+  const hash = createHash('sha1');
+  urls.forEach(url => {
+    hash.update(url);
+    hash.update(fs.readFileSync(publicFile(publicDir, url)));
+  });
+  return hash.digest('hex').slice(0, 12);
+}
+
+export function serviceWorkerScript(version: string, precache: string[]): string {
+  return `var shellCache = 'shell-' + ${JSON.stringify(version)};
+var pageCache = 'pages';
+var assetCache = 'assets';
+var precache = ${JSON.stringify(precache)};
+var offlinePage = ${JSON.stringify(offlinePagePath)};
+
+self.addEventListener('install', function(event) {
+  event.waitUntil(caches.open(shellCache).then(function(cache) {
+    return cache.addAll(precache);
+  }).then(function() {
+    return self.skipWaiting();
+  }));
+});
+
+self.addEventListener('activate', function(event) {
+  event.waitUntil(caches.keys().then(function(keys) {
+    return Promise.all(keys.filter(function(key) {
+      return key.indexOf('shell-') === 0 && key !== shellCache;
+    }).map(function(key) {
+      return caches.delete(key);
+    }));
+  }).then(pruneAssets).then(function() {
+    return self.clients.claim();
+  }));
+});
+
+function absoluteUrl(url) {
+  return new URL(url, self.location.href).href;
+}
+
+function savedPageAssets() {
+  return caches.open(pageCache).then(function(cache) {
+    return cache.keys().then(function(requests) {
+      return Promise.all(requests.map(function(request) {
+        return cache.match(request).then(function(response) {
+          var type = response === undefined ? '' : response.headers.get('content-type') || '';
+          return type.indexOf('text/html') === 0 ? response.text().then(pageAssets) : [];
+        });
+      }));
+    });
+  }).then(function(lists) {
+    return [].concat.apply([], lists);
+  });
+}
+
+function pruneAssets() {
+  return savedPageAssets().then(function(saved) {
+    var keep = precache.concat(saved).map(absoluteUrl);
+    return caches.open(assetCache).then(function(cache) {
+      return cache.keys().then(function(requests) {
+        return Promise.all(requests.filter(function(request) {
+          return keep.indexOf(request.url) === -1;
+        }).map(function(request) {
+          return cache.delete(request);
+        }));
+      });
+    });
+  });
+}
+
+function pageKey(url) {
+  return /\\/[^/.]+$/.test(url.pathname) ? url.pathname + '/' : url.pathname;
+}
+
+function isAsset(url) {
+  return url.pathname.indexOf('/static/') === 0 || /^\\/[\\w.-]+\\.(js|css)$/.test(url.pathname);
+}
+
+function isPage(request, url) {
+  return request.mode === 'navigate' || url.pathname.indexOf('/page-data/') === 0;
+}
+
+function networkFirst(request, key) {
+  return fetch(request).then(function(response) {
+    if (response.ok) {
+      var copy = response.clone();
+      caches.open(pageCache).then(function(cache) {
+        return cache.put(key, copy);
+      });
+    }
+    return response;
+  }).catch(function() {
+    return caches.match(key).then(function(cached) {
+      if (cached !== undefined || request.mode !== 'navigate') {
+        return cached || Promise.reject(new Error('Offline and not cached: ' + key));
+      }
+      return caches.match(offlinePage);
+    });
+  });
+}
+
+function cacheFirst(request) {
+  return caches.open(assetCache).then(function(cache) {
+    return cache.match(request).then(function(cached) {
+      if (cached !== undefined) {
+        return cached;
+      }
+      return caches.match(request, {cacheName: shellCache}).then(function(shell) {
+        return shell || fetch(request);
+      }).then(function(response) {
+        if (response.ok) {
+          cache.put(request, response.clone());
+        }
+        return response;
+      });
+    });
+  });
+}
+
+self.addEventListener('fetch', function(event) {
+  var url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+  if (isAsset(url)) {
+    event.respondWith(cacheFirst(event.request));
+  } else if (isPage(event.request, url)) {
+    event.respondWith(networkFirst(event.request, pageKey(url)));
+  }
+});
+
+function pageAssets(html) {
+  var urls = [];
+  var pattern = /\\ssrc="([^"]+)"/g;
+  var match;
+  while ((match = pattern.exec(html)) !== null) {
+    if (isAsset(new URL(match[1], self.location.href)) && urls.indexOf(match[1]) === -1) {
+      urls.push(match[1]);
+    }
+  }
+  return urls;
+}
+
+function cachedPage(key) {
+  return caches.open(pageCache).then(function(cache) {
+    return cache.match(key).then(function(cached) {
+      return cached || fetch(key).then(function(response) {
+        if (!response.ok) {
+          throw new Error(key + ' responded with ' + response.status);
+        }
+        return cache.put(key, response.clone()).then(function() {
+          return response;
+        });
+      });
+    });
+  });
+}
+
+function save(url) {
+  return cachedPage(pageKey(new URL(url, self.location.href))).then(function(response) {
+    var type = response.headers.get('content-type') || '';
+    if (type.indexOf('text/html') !== 0) {
+      return;
+    }
+    return response.text().then(function(html) {
+      return Promise.all(pageAssets(html).map(function(asset) {
+        return cacheFirst(new Request(asset));
+      }));
+    });
+  });
+}
+
+self.addEventListener('message', function(event) {
+  if (event.data === null || typeof event.data !== 'object' || event.data.type !== 'save') {
+    return;
+  }
+  var failed = [];
+  event.waitUntil(Promise.all(event.data.urls.map(function(url) {
+    return save(url).catch(function() {
+      failed.push(url);
+    });
+  })).then(function() {
+    event.ports[0].postMessage({failed: failed});
+  }));
+});
+`;
+}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import sharp from 'sharp';
+import {Series} from './frontmatter';
+import {socialImageHeight, socialImageWidth} from '../src/utils/social-images';
+import {localize, uiStrings} from '../src/utils/language-registry';
+import {escapeMarkup} from './escape-markup';
+
+export type SocialImage = {
+  siteTitle: string;
+  title: string;
+  series: null | Series;
+  tags: string[];
+  date: string;
+  language: string;
+  backgroundColor: string;
+  themeColor: string;
+  postImage: null | string;
+};
+
+const margin = 72;
+const accentWidth = 24;
+const postImageSize = 400;
+const titleFontSize = 64;
+const maxTitleLines = 3;
+
+export async function renderSocialImage(image: SocialImage): Promise<Buffer> {
+  const textWidth = socialImageWidth - 2 * margin - (image.postImage === null ? 0 : postImageSize + margin / 2);
+  const overlays: sharp.OverlayOptions[] = [];
+  if (image.postImage !== null) {
+    overlays.push({
+      input: await sharp(image.postImage).resize(postImageSize, postImageSize, {fit: 'cover'}).toBuffer(),
+      left: socialImageWidth - margin - postImageSize,
+      top: (socialImageHeight - postImageSize) / 2,
+    });
+  }
+
+  return sharp(Buffer.from(svg(image, textWidth)))
+    .composite(overlays)
+    .png()
+    .toBuffer();
+}
+
+function svg(image: SocialImage, textWidth: number): string {
+  const titleLines = wrap(image.title, maxChars(textWidth, titleFontSize), maxTitleLines);
+  const titleTop = 220;
+  const titleBottom = titleTop + (titleLines.length - 1) * titleFontSize * 1.2;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${socialImageWidth}" height="${socialImageHeight}">
+  <rect width="100%" height="100%" fill="${image.backgroundColor}"/>
+  <rect width="${accentWidth}" height="100%" fill="${image.themeColor}"/>
+  <g font-family="sans-serif" fill="#24292e">
+    <text x="${margin}" y="${margin + 36}" font-size="36" font-weight="bold" fill="${image.themeColor}">${escapeMarkup(image.siteTitle)}</text>
+    ${titleLines.map((line, i) => `<text x="${margin}" y="${titleTop + i * titleFontSize * 1.2}" font-size="${titleFontSize}" font-weight="bold">${escapeMarkup(line)}</text>`).join('\n    ')}
+    ${image.series === null ? '' : `<text x="${margin}" y="${titleBottom + 70}" font-size="32" font-style="italic">${escapeMarkup(truncate(`${localize(uiStrings(image.language).seriesPart, {part: image.series.part})} ${image.series.title}`, maxChars(textWidth, 32)))}</text>`}
+    <text x="${margin}" y="${socialImageHeight - margin - 48}" font-size="28" fill="${image.themeColor}">${escapeMarkup(truncate(image.tags.map(tag => `#${tag}`).join(' '), maxChars(textWidth, 28)))}</text>
+    <text x="${margin}" y="${socialImageHeight - margin}" font-size="28">${escapeMarkup(image.date)}</text>
+  </g>
+</svg>`;
+}
+
+function maxChars(width: number, fontSize: number): number {
+  return Math.floor(width / (fontSize * 0.55));
+}
+
+function truncate(text: string, length: number): string {
+  return text.length <= length ? text : text.slice(0, length - 1).trimEnd() + '…';
+}
+
+function wrap(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  text.split(/\s+/).forEach(word => {
+    const last = lines.length - 1;
+    if (last >= 0 && (lines[last] + ' ' + word).length <= maxChars) {
+      lines[last] += ' ' + word;
+    } else {
+      lines.push(word);
+    }
+  });
+  if (lines.length > maxLines) {
+    return [...lines.slice(0, maxLines - 1), lines[maxLines - 1] + '…'];
+  }
+  return lines;
+}
\ No newline at end of file
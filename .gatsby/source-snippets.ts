@@ -0,0 +1,86 @@
+import {execFileSync} from 'child_process';
+import path from 'path';
+import {Source} from './frontmatter';
+
+export type SourceRange = {
+  file: string;
+  start: null | number;
+  end: null | number;
+};
+
+export type SourceSnippet = SourceRange & {
+  code: string;
+};
+
+const fencePattern = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const sourceAttributePattern = /\bsource="([^"]*)"/;
+const sourceRangePattern = /^([^#]+)(?:#L(\d+)(?:-L(\d+))?)?$/;
+
+export function parseSourceRange(value: string): SourceRange {
+  const match = sourceRangePattern.exec(value);
+  if (match === null) {
+    throw new Error(`Invalid code block source "${value}", expected path/to/file or path/to/file#L10-L20`);
+  }
+  const start = match[2] === undefined ? null : Number(match[2]);
+  const end = match[3] === undefined ? start : Number(match[3]);
+  if (start !== null && end !== null && (start < 1 || start > end)) {
+    throw new Error(`Invalid line range in code block source "${value}", lines start at 1 and the range cannot end before it starts`);
+  }
+  return {file: match[1], start, end};
+}
+
+export function sourceSnippets(markdown: string): SourceSnippet[] {
+  const snippets: SourceSnippet[] = [];
+  let open: null | { indent: number, fence: string, source: null | RegExpExecArray, lines: string[] } = null;
+  markdown.split('\n').forEach(line => {
+    if (open === null) {
+      const match = fencePattern.exec(line);
+      if (match !== null) {
+        open = {indent: match[1].length, fence: match[2], source: sourceAttributePattern.exec(match[3]), lines: []};
+      }
+      return;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith(open.fence) && /^(`+|~+)$/.test(trimmed) && trimmed[0] === open.fence[0]) {
+      if (open.source !== null) {
+        snippets.push({...parseSourceRange(open.source[1]), code: open.lines.join('\n')});
+      }
+      open = null;
+      return;
+    }
+    open.lines.push(line.slice(Math.min(open.indent, line.length - line.trimStart().length)));
+  });
+  return snippets;
+}
+
+export function checkSourceSnippet(checkout: string, {commit}: Source, snippet: SourceSnippet): null | string {
+  let content: string;
+  try {
+    content = execFileSync('git', ['-C', checkout, 'show', `${commit}:${snippet.file}`], {encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe']});
+  } catch (e) {
+    return `${snippet.file} does not exist at ${commit} in ${checkout}`;
+  }
+
+  const lines = content.replace(/\n$/, '').split('\n');
+  const start = snippet.start === null ? 1 : snippet.start;
+  const end = snippet.end === null ? lines.length : snippet.end;
+  if (end > lines.length) {
+    return `${snippet.file}#L${start}-L${end} is past the end of the file (${lines.length} lines) at ${commit}`;
+  }
+
+  const expected = normalize(lines.slice(start - 1, end));
+  const actual = normalize(snippet.code.split('\n'));
+  if (expected.join('\n') !== actual.join('\n')) {
+    return `${snippet.file}#L${start}-L${end} does not match the file at ${commit}`;
+  }
+  return null;
+}
+
+export function sourceCheckout(checkouts: string, {repository}: Source): string {
+  return path.join(checkouts, path.basename(repository.replace(/\/+$/, '').replace(/\.git$/, '')));
+}
+
+function normalize(lines: string[]): string[] {
+  return lines.map(line => line.replace(/\s+$/, ''));
+}
\ No newline at end of file
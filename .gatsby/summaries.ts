@@ -0,0 +1,17 @@
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;/g, '\'')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function firstImage(html: string): null | string {
+  const match = /<img\s[^>]*?class="gatsby-resp-image-image"[^>]*?src="([^"]*)"/.exec(html) || /<img\s[^>]*?src="([^"]*)"/.exec(html);
+  return match === null ? null : match[1];
+}
\ No newline at end of file
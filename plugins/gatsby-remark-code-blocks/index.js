@@ -0,0 +1,58 @@
+function takeAttribute(node, name) {
+  const pattern = new RegExp(`\\s*\\b${name}="([^"]*)"`);
+  const match = node.meta ? pattern.exec(node.meta) : null;
+  if (match === null) {
+    return null;
+  }
+  node.meta = node.meta.replace(pattern, '').trim() || null;
+  return match[1];
+}
+
+function sourceUrl(repository, commit, {file, start, end}) {
+  const lines = start === null ? '' : start === end ? `#L${start}` : `#L${start}-L${end}`;
+  return `${repository.replace(/\/+$/, '')}/blob/${commit}/${file}${lines}`;
+}
+
+function codeHeader(node, frontmatter, {escapeMarkup, parseSourceRange}) {
+  const title = takeAttribute(node, 'title');
+  const source = takeAttribute(node, 'source');
+  if (source === null) {
+    return title === null ? null : `<div class="gatsby-code-header"><span class="gatsby-code-title">${escapeMarkup(title)}</span></div>`;
+  }
+
+  if (!frontmatter.source) {
+    throw new Error(`Code block source "${source}" requires a source repository and commit in the post frontmatter`);
+  }
+  const {repository, commit} = frontmatter.source;
+  const range = parseSourceRange(source);
+  return '<div class="gatsby-code-header">' +
+    `<span class="gatsby-code-title">${escapeMarkup(title === null ? range.file : title)}</span>` +
+    `<a class="gatsby-code-source" href="${escapeMarkup(sourceUrl(repository, commit, range))}">View source at ${escapeMarkup(commit.slice(0, 7))}</a>` +
+    '</div>';
+}
+
+function visitCodeBlocks(parent, frontmatter, helpers) {
+  if (!Array.isArray(parent.children)) {
+    return;
+  }
+
+  const children = [];
+  parent.children.forEach(child => {
+    if (child.type === 'code') {
+      const header = codeHeader(child, frontmatter, helpers);
+      if (header !== null) {
+        children.push({type: 'html', value: header});
+      }
+    } else {
+      visitCodeBlocks(child, frontmatter, helpers);
+    }
+    children.push(child);
+  });
+  parent.children = children;
+}
+
+// eslint-disable-next-line no-undef
+module.exports = ({markdownAST, markdownNode}, {escapeMarkup, parseSourceRange}) => {
+  visitCodeBlocks(markdownAST, markdownNode.frontmatter || {}, {escapeMarkup, parseSourceRange});
+  return markdownAST;
+};
\ No newline at end of file
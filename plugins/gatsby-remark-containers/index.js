@@ -0,0 +1,79 @@
+const imageContainers = ['comparison', 'gallery'];
+
+const callouts = {
+  note: 'Note',
+  tip: 'Tip',
+  warning: 'Warning',
+};
+
+const openPattern = /^:::\s*([a-z-]+)(?:\s+(.+))?$/;
+const closePattern = /^:::$/;
+
+function marker(node) {
+  if (node.type !== 'paragraph' || node.children.length !== 1 || node.children[0].type !== 'text') {
+    return null;
+  }
+  return node.children[0].value.trim();
+}
+
+function unwrapImages(node) {
+  if (node.type !== 'paragraph' || !node.children.every(child => child.type === 'image' || child.type === 'html' || (child.type === 'text' && child.value.trim() === ''))) {
+    return [node];
+  }
+  return node.children.filter(child => child.type !== 'text');
+}
+
+function openContainer(name, title, escapeMarkup) {
+  if (imageContainers.includes(name)) {
+    return `<div class="post-${name}">`;
+  }
+  if (Object.prototype.hasOwnProperty.call(callouts, name)) {
+    return `<div class="post-callout post-callout-${name}"><p class="post-callout-title">${escapeMarkup(title || callouts[name])}</p>`;
+  }
+  const known = [...imageContainers, ...Object.keys(callouts)];
+  throw new Error(`Unknown container ":::${name}", expected one of ${known.map(k => `:::${k}`).join(', ')}`);
+}
+
+function visitContainers(parent, escapeMarkup) {
+  if (!Array.isArray(parent.children)) {
+    return;
+  }
+
+  const children = [];
+  let open = null;
+  parent.children.forEach(child => {
+    const text = marker(child);
+    const opening = text === null ? null : openPattern.exec(text);
+    if (opening !== null) {
+      if (open !== null) {
+        throw new Error(`Container ":::${opening[1]}" cannot be nested inside ":::${open}"`);
+      }
+      children.push({type: 'html', value: openContainer(opening[1], opening[2], escapeMarkup)});
+      open = opening[1];
+    } else if (text !== null && closePattern.test(text)) {
+      if (open === null) {
+        throw new Error('Found ":::" without a matching opening container');
+      }
+      open = null;
+      children.push({type: 'html', value: '</div>'});
+    } else if (open !== null && imageContainers.includes(open)) {
+      children.push(...unwrapImages(child));
+    } else if (open !== null) {
+      children.push(child);
+    } else {
+      visitContainers(child, escapeMarkup);
+      children.push(child);
+    }
+  });
+
+  if (open !== null) {
+    throw new Error(`Container ":::${open}" is never closed with ":::"`);
+  }
+  parent.children = children;
+}
+
+// eslint-disable-next-line no-undef
+module.exports = ({markdownAST}, {escapeMarkup}) => {
+  visitContainers(markdownAST, escapeMarkup);
+  return markdownAST;
+};
\ No newline at end of file
@@ -0,0 +1,156 @@
+const kinds = {
+  fig: 'Figure',
+  eq: 'Equation',
+  lst: 'Listing',
+};
+
+const labelPattern = /^\s*\{#((fig|eq|lst):[\w-]+)\}\s*$/;
+const listingLabelPattern = /\s*\{#(lst:[\w-]+)\}/;
+const strayLabelPattern = /\{#((?:fig|eq|lst):[\w-]+)\}/;
+const referencePattern = /(^|[^\w@])@((?:fig|eq|lst):[\w-]+)/g;
+const titlePattern = /\btitle="([^"]*)"/;
+
+function anchorId(label) {
+  return label.replace(':', '-');
+}
+
+function anchor(label) {
+  return {type: 'html', value: `<span id="${anchorId(label)}" class="post-anchor"></span>`};
+}
+
+function paragraphLabel(node) {
+  if (node.type !== 'paragraph' || node.children.length !== 1 || node.children[0].type !== 'text') {
+    return null;
+  }
+  const match = labelPattern.exec(node.children[0].value);
+  return match === null ? null : match[1];
+}
+
+function walk(node, visit) {
+  if (!Array.isArray(node.children)) {
+    return;
+  }
+  node.children.slice().forEach(child => {
+    visit(child, node);
+    walk(child, visit);
+  });
+}
+
+function collectLabels(markdownAST, problems) {
+  const labels = new Map();
+  const counts = {fig: 0, eq: 0, lst: 0};
+  const define = label => {
+    if (labels.has(label)) {
+      problems.push(`label ${label} is defined more than once`);
+      return null;
+    }
+    const kind = label.split(':')[0];
+    const number = ++counts[kind];
+    labels.set(label, `${kinds[kind]} ${number}`);
+    return number;
+  };
+
+  walk(markdownAST, (node, parent) => {
+    if (node.type === 'paragraph') {
+      const last = node.children[node.children.length - 1];
+      const image = node.children.find(child => child.type === 'image');
+      const match = last !== undefined && last.type === 'text' ? labelPattern.exec(last.value) : null;
+      if (image !== undefined && match !== null && match[2] === 'fig') {
+        const number = define(match[1]);
+        node.children.pop();
+        node.children.unshift(anchor(match[1]));
+        image.title = `Figure ${number}: ${image.title || image.alt || ''}`.replace(/: $/, '');
+      }
+    } else if (node.type === 'math') {
+      const index = parent.children.indexOf(node);
+      const next = parent.children[index + 1];
+      const label = next === undefined ? null : paragraphLabel(next);
+      if (label !== null && label.startsWith('eq:')) {
+        const number = define(label);
+        node.value = `${node.value}\n\\tag{${number}}`;
+        parent.children.splice(index, 2, anchor(label), node);
+      }
+    } else if (node.type === 'code') {
+      const source = `${node.lang || ''} ${node.meta || ''}`;
+      const match = listingLabelPattern.exec(source);
+      if (match !== null) {
+        const number = define(match[1]);
+        node.lang = node.lang ? node.lang.replace(listingLabelPattern, '') : node.lang;
+        node.meta = node.meta ? node.meta.replace(listingLabelPattern, '').trim() || null : node.meta;
+        const title = node.meta ? titlePattern.exec(node.meta) : null;
+        const caption = title === null ? `Listing ${number}` : `Listing ${number}: ${title[1]}`;
+        node.meta = title === null ? `${node.meta || ''} title="${caption}"`.trim() : node.meta.replace(titlePattern, `title="${caption}"`);
+        parent.children.splice(parent.children.indexOf(node), 0, anchor(match[1]));
+      }
+    }
+  });
+  return labels;
+}
+
+function resolveReferences(markdownAST, labels, problems) {
+  walk(markdownAST, node => {
+    if (!Array.isArray(node.children) || node.type === 'link') {
+      return;
+    }
+    node.children = [].concat(...node.children.map(child => {
+      if (child.type !== 'text') {
+        return [child];
+      }
+
+      const stray = strayLabelPattern.exec(child.value);
+      if (stray !== null) {
+        problems.push(`label ${stray[1]} is not attached to any ${kinds[stray[1].split(':')[0]].toLowerCase()}`);
+      }
+
+      const parts = [];
+      let last = 0;
+      child.value.replace(referencePattern, (match, prefix, label, offset) => {
+        const start = offset + prefix.length;
+        parts.push({type: 'text', value: child.value.slice(last, start)});
+        const text = labels.get(label);
+        if (text === undefined) {
+          problems.push(`reference @${label} does not match any label`);
+          parts.push({type: 'text', value: `@${label}`});
+        } else {
+          parts.push({type: 'html', value: `<a class="post-reference" href="#${anchorId(label)}">${text}</a>`});
+        }
+        last = start + label.length + 1;
+        return match;
+      });
+      if (parts.length === 0) {
+        return [child];
+      }
+      parts.push({type: 'text', value: child.value.slice(last)});
+      return parts.filter(part => part.type !== 'text' || part.value !== '');
+    }));
+  });
+}
+
+function checkFootnotes(markdownAST, problems) {
+  const definitions = new Set();
+  const references = new Set();
+  walk(markdownAST, node => {
+    if (node.type === 'footnoteDefinition') {
+      definitions.add(node.identifier);
+    } else if (node.type === 'footnoteReference') {
+      references.add(node.identifier);
+    }
+  });
+  references.forEach(identifier => {
+    if (!definitions.has(identifier)) {
+      problems.push(`footnote [^${identifier}] has no definition`);
+    }
+  });
+}
+
+// eslint-disable-next-line no-undef
+module.exports = ({markdownAST, markdownNode}) => {
+  const problems = [];
+  const labels = collectLabels(markdownAST, problems);
+  resolveReferences(markdownAST, labels, problems);
+  checkFootnotes(markdownAST, problems);
+  if (problems.length > 0) {
+    throw new Error(`Broken cross references in ${markdownNode.fileAbsolutePath}:\n${problems.map(problem => `  ${problem}`).join('\n')}`);
+  }
+  return markdownAST;
+};
\ No newline at end of file
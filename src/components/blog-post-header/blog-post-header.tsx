@@ -2,17 +2,26 @@ import React, {ReactElement} from 'react';
 import {graphql, Link, useStaticQuery} from 'gatsby';
 import * as styles from '../blog-post-header/blog-post-header.module.scss';
 import TagList from '../tag-list/tag-list';
-import {get} from '../../utils/map-util';
+import {authorInfo, authorSlug} from '../../utils/author-registry';
+import {formatNumber, localize, uiStrings} from '../../utils/language-registry';
+import {defaultLanguage, UiStrings} from '../../data/languages';
+import {PostStatus} from '../../utils/post-status';
 
 export type BlogPostHeaderProps = {
   slug: string;
+  status: PostStatus;
   title: string;
   series: null | {
     title: string;
     part: number;
   };
   tags: string[];
+  authors?: string[];
   date: string;
+  updated?: null | string;
+  timeToRead?: number;
+  wordCount?: number;
+  language?: string;
 };
 
 const query = graphql`
@@ -27,6 +36,15 @@ const query = graphql`
       }
     }
   }
+  authorPages: allSitePage(filter: {context: {author: {ne: null}}}) {
+    edges {
+      node {
+        context {
+          author
+        }
+      }
+    }
+  }
 }
 `;
 
@@ -41,20 +59,36 @@ type QueryResult = {
       };
     }[];
   };
+  authorPages: {
+    edges: {
+      node: {
+        context: {
+          author: string;
+        };
+      };
+    }[];
+  };
 };
 
 export default function BlogPostHeader(props: BlogPostHeaderProps): ReactElement {
-  const {allSitePage: {edges}}: QueryResult = useStaticQuery(query);
+  const {allSitePage: {edges}, authorPages}: QueryResult = useStaticQuery(query);
   const slugs = new Map<string, string>(edges.map(edge => [edge.node.context.series___title, edge.node.context.slug]));
+  const authorsWithPages = new Set(authorPages.edges.map(edge => edge.node.context.author));
+  const language = props.language === undefined ? defaultLanguage : props.language;
+  const strings = uiStrings(language);
 
   return (
     <header className={styles.header}>
+      {props.status === 'published' ? <></> : <div className={styles.status}>{props.status}</div>}
       <Link className={styles.title} to={props.slug}>
         <h2>{props.title}</h2>
       </Link>
       <div className={styles.subtitle}>
+        {props.authors === undefined ? <></> : Byline(props.authors, authorsWithPages, strings)}
         <span className={styles.date}>{props.date}</span>
-        {props.series === null ? <></> : Series(props.series.title, props.series.part, get(slugs, props.series.title, k => Error(`Unknown series title: ${k}`)))}
+        {props.updated === undefined || props.updated === null ? <></> : <span className={styles.updated}>{localize(strings.updatedOn, {date: props.updated})}</span>}
+        {props.timeToRead === undefined || props.wordCount === undefined ? <></> : ReadingTime(props.timeToRead, props.wordCount, language)}
+        {props.series === null ? <></> : Series(props.series.title, props.series.part, slugs.get(props.series.title), strings)}
         <span>
           <TagList tags={props.tags}/>
         </span>
@@ -63,13 +97,37 @@ export default function BlogPostHeader(props: BlogPostHeaderProps): ReactElement
   );
 }
 
-function Series(title: string, part: number, slug: string): ReactElement {
+function Byline(authors: string[], authorsWithPages: Set<string>, strings: UiStrings): ReactElement {
+  return (
+    <span className={styles.byline}>
+      {strings.by}&nbsp;
+      {authors.map((author, i) => (
+        <React.Fragment key={author}>
+          {i === 0 ? '' : i === authors.length - 1 ? ` ${strings.and} ` : ', '}
+          {authorsWithPages.has(author) ? <Link to={authorSlug(author)}>{authorInfo(author).name}</Link> : authorInfo(author).name}
+        </React.Fragment>
+      ))}
+    </span>
+  );
+}
+
+function Series(title: string, part: number, slug: undefined | string, strings: UiStrings): ReactElement {
   return (
     <span className={styles.series}>
-      Part {part} of&nbsp;
-      <Link to={slug}>
-        {title}
-      </Link>
+      {localize(strings.seriesPart, {part})}&nbsp;
+      {slug === undefined ? title : (
+        <Link to={slug}>
+          {title}
+        </Link>
+      )}
+    </span>
+  );
+}
+
+function ReadingTime(minutes: number, words: number, language: string): ReactElement {
+  return (
+    <span className={styles.readingTime}>
+      {localize(uiStrings(language).readingTime, {minutes, words: formatNumber(language, words)})}
     </span>
   );
 }
\ No newline at end of file
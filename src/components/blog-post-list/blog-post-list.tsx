@@ -1,17 +1,24 @@
 import React, {ReactElement} from 'react';
+import {Link} from 'gatsby';
 import BlogPostHeader from '../blog-post-header/blog-post-header';
+import {PostStatus} from '../../utils/post-status';
 import * as styles from '../blog-post-list/blog-post-list.module.scss';
+import {uiStrings} from '../../utils/language-registry';
+import {defaultLanguage} from '../../data/languages';
 
 type BlogPostListProps = {
   posts: {
     node: BlogPostProps;
   }[];
+  language?: string;
 };
 
-type BlogPostProps = {
+export type BlogPostProps = {
   fields: {
     slug: string;
+    authors?: string[];
   };
+  status: PostStatus;
   frontmatter: {
     title: string;
     series: null | {
@@ -21,20 +28,29 @@ type BlogPostProps = {
     date: string;
     tags: string[];
   };
+  summary?: string;
+  thumbnail?: null | string;
 };
 
-export default function BlogPostList({posts}: BlogPostListProps): ReactElement {
+export default function BlogPostList({posts, language = defaultLanguage}: BlogPostListProps): ReactElement {
   return (
     <div className={styles.container}>
-      {posts.map(({node}, i) => BlogPost(i, node))}
+      {posts.map(({node}, i) => BlogPost(i, node, language))}
     </div>
   );
 }
 
-function BlogPost(i: number, {fields: {slug}, frontmatter: {title, series, date, tags}}: BlogPostProps): ReactElement {
+function BlogPost(i: number, {fields: {slug, authors}, status, frontmatter: {title, series, date, tags}, summary, thumbnail}: BlogPostProps, language: string): ReactElement {
   return (
     <article key={i}>
-      <BlogPostHeader slug={slug} title={title} series={series} tags={tags} date={date}/>
+      <BlogPostHeader slug={slug} status={status} title={title} series={series} tags={tags} authors={authors} date={date} language={language}/>
+      {summary === undefined ? <></> : (
+        <div className={styles.summary}>
+          {thumbnail === undefined || thumbnail === null ? <></> : <Link to={slug}><img className={styles.thumbnail} src={thumbnail} alt=""/></Link>}
+          <p>{summary}</p>
+          <Link className={styles.more} to={slug}>{uiStrings(language).continueReading}</Link>
+        </div>
+      )}
     </article>
   );
 }
\ No newline at end of file
@@ -0,0 +1,33 @@
+import React, {ReactElement} from 'react';
+import {Link} from 'gatsby';
+import * as styles from './language-switcher.module.scss';
+import {languageInfo, uiStrings} from '../../utils/language-registry';
+
+export type Translation = {
+  language: string;
+  slug: string;
+};
+
+type LanguageSwitcherProps = {
+  language: string;
+  translations: Translation[];
+};
+
+export default function LanguageSwitcher({language, translations}: LanguageSwitcherProps): ReactElement {
+  const others = translations.filter(translation => translation.language !== language);
+  if (others.length === 0) {
+    return <></>;
+  }
+
+  return (
+    <nav className={styles.container}>
+      {uiStrings(language).translations}:&nbsp;
+      {others.map((translation, i) => (
+        <React.Fragment key={translation.language}>
+          {i === 0 ? '' : ', '}
+          <Link to={translation.slug} lang={translation.language} hrefLang={translation.language}>{languageInfo(translation.language).name}</Link>
+        </React.Fragment>
+      ))}
+    </nav>
+  );
+}
\ No newline at end of file
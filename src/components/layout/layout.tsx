@@ -1,44 +1,36 @@
 import React, {ReactElement, ReactNode} from 'react';
 import * as styles from './layout.module.scss';
-import Seo from '../seo/seo';
-import {graphql, Link, useStaticQuery} from 'gatsby';
+import Seo, {PageSeo} from '../seo/seo';
+import {Link} from 'gatsby';
 import './layout.scss';
 import SocialMedia from '../social-media/social-media';
+import SearchBox from '../search-box/search-box';
+import ThemeToggle from '../theme-toggle/theme-toggle';
+import {site} from '../../data/site';
+import {defaultLanguage} from '../../data/languages';
+import {languagePath} from '../../utils/language-registry';
+
+export type LayoutFeed = {
+  title: string;
+  path: string;
+};
 
 type LayoutProps = {
   children: ReactNode;
   subtitle?: string;
   footer?: ReactNode;
+  feed?: LayoutFeed;
+  seo?: PageSeo;
+  language?: string;
 }
 
-type QueryResult = {
-  site: {
-    siteMetadata: {
-      title: string;
-      author: string;
-    };
-  };
-};
-
-const query = graphql`
-{
-  site {
-    siteMetadata {
-      title
-      author
-    }
-  }
-}
-`;
-
-export default function Layout({children, subtitle, footer}: LayoutProps): ReactElement {
-  const {site: {siteMetadata}}: QueryResult = useStaticQuery(query);
+export default function Layout({children, subtitle, footer, feed, seo, language = defaultLanguage}: LayoutProps): ReactElement {
   return (
     <>
-      <Seo subtitle={subtitle}/>
+      <Seo subtitle={subtitle} language={language} feed={feed} {...seo}/>
 
       <div className={styles.layout}>
-        <Header title={siteMetadata.title}/>
+        <Header title={site.title} home={languagePath(language, '/')} feed={feed} language={language}/>
 
         {children}
 
@@ -48,17 +40,21 @@ export default function Layout({children, subtitle, footer}: LayoutProps): React
   );
 }
 
-function Header({title}: { title: string }) {
+function Header({title, home, feed, language}: { title: string, home: string, feed?: LayoutFeed, language: string }) {
   return (
     <div className={styles.header}>
 
-      <Link className={styles.title} to="/">
+      <Link className={styles.title} to={home}>
         <h1>
           {title}
         </h1>
       </Link>
 
-      <SocialMedia/>
+      <div className={styles.actions}>
+        <SearchBox language={language}/>
+        <SocialMedia feed={feed === undefined ? undefined : feed.path} language={language}/>
+        <ThemeToggle language={language}/>
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import React, {ReactElement, useEffect, useState} from 'react';
+import {FaChevronLeft, FaChevronRight, FaTimes} from 'react-icons/fa';
+import {GalleryImage} from '../../utils/image-containers';
+import * as styles from './lightbox.module.scss';
+import {uiStrings} from '../../utils/language-registry';
+
+type LightboxProps = {
+  images: GalleryImage[];
+  index: number;
+  onChange: (index: null | number) => void;
+  language: string;
+};
+
+export default function Lightbox({images, index, onChange, language}: LightboxProps): ReactElement {
+  const strings = uiStrings(language).lightbox;
+  const [zoomed, setZoomed] = useState(false);
+  const image = images[index];
+  const previous = index > 0 ? index - 1 : null;
+  const next = index < images.length - 1 ? index + 1 : null;
+
+  useEffect(() => setZoomed(false), [index]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onChange(null);
+      } else if (event.key === 'ArrowLeft' && previous !== null) {
+        onChange(previous);
+      } else if (event.key === 'ArrowRight' && next !== null) {
+        onChange(next);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [previous, next, onChange]);
+
+  return (
+    <div className={styles.overlay} role="dialog" aria-modal="true" aria-label={image.alt} onClick={() => onChange(null)}>
+      <div className={zoomed ? `${styles.viewport} ${styles.zoomed}` : styles.viewport} onClick={event => event.stopPropagation()}>
+        <img src={image.src} alt={image.alt} title={zoomed ? strings.zoomOut : strings.zoomIn} onClick={() => setZoomed(!zoomed)}/>
+      </div>
+      <div className={styles.caption} onClick={event => event.stopPropagation()}>
+        <button type="button" aria-label={strings.previous} disabled={previous === null} onClick={() => onChange(previous)}>
+          <FaChevronLeft/>
+        </button>
+        <span>{image.alt} ({index + 1}/{images.length})</span>
+        <button type="button" aria-label={strings.next} disabled={next === null} onClick={() => onChange(next)}>
+          <FaChevronRight/>
+        </button>
+        <button type="button" aria-label={strings.close} onClick={() => onChange(null)}>
+          <FaTimes/>
+        </button>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
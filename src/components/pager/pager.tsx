@@ -0,0 +1,42 @@
+import React, {ReactElement} from 'react';
+import {Link} from 'gatsby';
+import {Helmet} from 'react-helmet';
+import * as styles from './pager.module.scss';
+import {pagePath} from '../../utils/pagination';
+import {localize, uiStrings} from '../../utils/language-registry';
+import {defaultLanguage} from '../../data/languages';
+
+export type PagerProps = {
+  basePath: string;
+  currentPage: number;
+  pageCount: number;
+  language?: string;
+};
+
+export default function Pager({basePath, currentPage, pageCount, language = defaultLanguage}: PagerProps): ReactElement {
+  if (pageCount <= 1) {
+    return <></>;
+  }
+
+  const prev = currentPage > 1 ? pagePath(basePath, currentPage - 1) : null;
+  const next = currentPage < pageCount ? pagePath(basePath, currentPage + 1) : null;
+  const strings = uiStrings(language).pager;
+
+  return (
+    <nav className={styles.container}>
+      <Helmet>
+        {prev === null ? null : <link rel="prev" href={prev}/>}
+        {next === null ? null : <link rel="next" href={next}/>}
+      </Helmet>
+      {PagerLink(strings.first, prev === null ? null : pagePath(basePath, 1))}
+      {PagerLink(strings.previous, prev)}
+      <span className={styles.current}>{localize(strings.page, {current: currentPage, count: pageCount})}</span>
+      {PagerLink(strings.next, next)}
+      {PagerLink(strings.last, next === null ? null : pagePath(basePath, pageCount))}
+    </nav>
+  );
+}
+
+function PagerLink(label: string, slug: null | string): ReactElement {
+  return slug === null ? <span className={styles.disabled}>{label}</span> : <Link to={slug}>{label}</Link>;
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+import React, {ReactElement} from 'react';
+import * as styles from './post-changelog.module.scss';
+import {pluralize, uiStrings} from '../../utils/language-registry';
+import {defaultLanguage} from '../../data/languages';
+
+type PostChangelogProps = {
+  entries: {
+    date: string;
+    note: string;
+  }[];
+  language?: string;
+};
+
+export default function PostChangelog({entries, language = defaultLanguage}: PostChangelogProps): ReactElement {
+  return (
+    <details className={styles.container}>
+      <summary>{pluralize(uiStrings(language).revisionHistory, entries.length)}</summary>
+      <ul>
+        {entries.map((entry, i) => (
+          <li key={i}>
+            <span className={styles.date}>{entry.date}</span>: {entry.note}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
\ No newline at end of file
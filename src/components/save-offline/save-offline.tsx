@@ -0,0 +1,52 @@
+import React, {ReactElement, useEffect, useState} from 'react';
+import {FaCheck, FaDownload} from 'react-icons/fa';
+import {isOfflineSupported, isSavedForOffline, saveForOffline} from '../../utils/offline';
+import * as styles from './save-offline.module.scss';
+import {uiStrings} from '../../utils/language-registry';
+
+type SaveState = 'unsupported' | 'idle' | 'saving' | 'saved' | 'failed';
+
+type SaveOfflineProps = {
+  paths: string[];
+  language: string;
+};
+
+export default function SaveOffline({paths, language}: SaveOfflineProps): ReactElement {
+  const [state, setState] = useState<SaveState>('unsupported');
+  const key = paths.join(' ');
+
+  useEffect(() => {
+    if (!isOfflineSupported() || navigator.serviceWorker.controller === null) {
+      return;
+    }
+    let active = true;
+    setState('idle');
+    isSavedForOffline(paths).then(saved => active && saved ? setState('saved') : undefined, () => undefined);
+    return () => {
+      active = false;
+    };
+  }, [key]);
+
+  if (state === 'unsupported') {
+    return <></>;
+  }
+
+  const strings = uiStrings(language).saveOffline;
+  const labels: Record<Exclude<SaveState, 'unsupported'>, string> = {
+    idle: strings.save,
+    saving: strings.saving,
+    saved: strings.saved,
+    failed: strings.failed,
+  };
+
+  const save = () => {
+    setState('saving');
+    saveForOffline(paths).then(result => setState(result.failed.length === 0 ? 'saved' : 'failed'), () => setState('failed'));
+  };
+
+  return (
+    <button className={styles.button} type="button" onClick={save} disabled={state === 'saving'}>
+      {state === 'saved' ? <FaCheck/> : <FaDownload/>} {labels[state]}
+    </button>
+  );
+}
\ No newline at end of file
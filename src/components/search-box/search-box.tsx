@@ -0,0 +1,20 @@
+import React, {ReactElement} from 'react';
+import {FaSearch} from 'react-icons/fa';
+import * as styles from './search-box.module.scss';
+import {uiStrings} from '../../utils/language-registry';
+
+type SearchBoxProps = {
+  language: string;
+};
+
+export default function SearchBox({language}: SearchBoxProps): ReactElement {
+  const {search} = uiStrings(language);
+  return (
+    <form className={styles.container} action="/search" method="get" role="search">
+      <input className={styles.input} type="search" name="q" placeholder={search.title} aria-label={search.label}/>
+      <button className={styles.button} type="submit" aria-label={search.title}>
+        <FaSearch/>
+      </button>
+    </form>
+  );
+}
\ No newline at end of file
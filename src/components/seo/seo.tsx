@@ -1,40 +1,198 @@
 import React, {ReactElement} from 'react';
 import {Helmet} from 'react-helmet';
-import {graphql, useStaticQuery} from 'gatsby';
+import {feedFormats, feedNames, feedPath, feedTypes} from '../../utils/feeds';
+import {site, SiteConfig} from '../../data/site';
+import {defaultLanguage} from '../../data/languages';
+import {languageInfo} from '../../utils/language-registry';
 
-type SeoProps = {
+export type SeoKind = 'website' | 'post' | 'series' | 'tag' | 'author';
+
+export type SeoAuthor = {
+  name: string;
+  path: string;
+};
+
+export type SeoAlternate = {
+  language: string;
+  path: string;
+};
+
+export type PageSeo = {
+  kind?: SeoKind;
+  path?: string;
+  description?: string;
+  published?: string;
+  modified?: string;
+  tags?: string[];
+  authors?: SeoAuthor[];
+  image?: string;
+  alternates?: SeoAlternate[];
+};
+
+type SeoProps = PageSeo & {
   subtitle?: string;
+  language?: string;
+  feed?: {
+    title: string;
+    path: string;
+  };
 }
 
-type QueryResult = {
-  site: {
-    siteMetadata: {
-      title: string;
-      siteUrl: string;
-    }
-  }
-}
+export default function Seo({subtitle, language = defaultLanguage, feed, kind = 'website', path, description, published, modified, tags = [], authors, image, alternates = []}: SeoProps): ReactElement {
+  const title = site.title + (subtitle === undefined ? '' : ' - ' + subtitle);
+  const url = path === undefined ? undefined : absoluteUrl(site.siteUrl, path);
+  const imageUrl = image === undefined ? undefined : absoluteUrl(site.siteUrl, image);
+  const summary = description === undefined ? site.description : description;
+  const fallback = alternates.find(alternate => alternate.language === defaultLanguage);
+  const structuredData = url === undefined ? null : jsonLd(site, {
+    kind,
+    url,
+    headline: subtitle === undefined ? site.title : subtitle,
+    description: summary,
+    published,
+    language,
+    modified: modified === undefined ? published : modified,
+    tags,
+    authors: (authors === undefined ? [] : authors).map(author => ({name: author.name, url: absoluteUrl(site.siteUrl, author.path)})),
+    image: imageUrl,
+  });
 
-export default function Seo({subtitle}: SeoProps): ReactElement {
-  const {site: {siteMetadata}}: QueryResult = useStaticQuery(query);
   return (
     <div className="application">
-      <Helmet>
+      <Helmet htmlAttributes={{lang: language}}>
         <meta charSet="utf-8"/>
-        <title>{siteMetadata.title + (subtitle === undefined ? '' : ' - ' + subtitle)}</title>
-        <link rel="canonical" href={siteMetadata.siteUrl}/>
+        <title>{title}</title>
+        <meta name="description" content={summary}/>
+        <meta name="author" content={authors === undefined ? site.author : authors.map(author => author.name).join(', ')}/>
+        {url === undefined ? null : <link rel="canonical" href={url}/>}
+        {alternates.length < 2 ? null : alternates.map(alternate => (
+          <link key={alternate.language} rel="alternate" hrefLang={alternate.language} href={absoluteUrl(site.siteUrl, alternate.path)}/>
+        ))}
+        {alternates.length < 2 || fallback === undefined ? null : <link rel="alternate" hrefLang="x-default" href={absoluteUrl(site.siteUrl, fallback.path)}/>}
+
+        <meta property="og:site_name" content={site.title}/>
+        <meta property="og:type" content={kind === 'post' ? 'article' : 'website'}/>
+        <meta property="og:locale" content={languageInfo(language).locale.replace('-', '_')}/>
+        <meta property="og:title" content={title}/>
+        <meta property="og:description" content={summary}/>
+        {url === undefined ? null : <meta property="og:url" content={url}/>}
+        {imageUrl === undefined ? null : <meta property="og:image" content={imageUrl}/>}
+        {kind !== 'post' || published === undefined ? null : <meta property="article:published_time" content={published}/>}
+        {kind !== 'post' || modified === undefined ? null : <meta property="article:modified_time" content={modified}/>}
+        {kind !== 'post' ? null : tags.map(tag => <meta key={tag} property="article:tag" content={tag}/>)}
+
+        <meta name="twitter:card" content={imageUrl === undefined ? 'summary' : 'summary_large_image'}/>
+        <meta name="twitter:title" content={title}/>
+        <meta name="twitter:description" content={summary}/>
+        {imageUrl === undefined ? null : <meta name="twitter:image" content={imageUrl}/>}
+
+        {structuredData === null ? null : <script type="application/ld+json">{JSON.stringify(structuredData)}</script>}
+
+        {feed === undefined ? null : feedFormats.map(format => (
+          <link
+            key={format}
+            rel="alternate"
+            type={feedTypes[format]}
+            title={`${site.title} - ${feed.title} (${feedNames[format]})`}
+            href={feedPath(feed.path, format)}
+          />
+        ))}
       </Helmet>
     </div>
   );
 }
 
-const query = graphql`
-  {
-    site {
-      siteMetadata {
-        title
-        siteUrl
-      }
-    }
+type JsonLdPage = {
+  kind: SeoKind;
+  url: string;
+  headline: string;
+  description: string;
+  language: string;
+  published?: string;
+  modified?: string;
+  tags: string[];
+  authors: { name: string, url: string }[];
+  image?: string;
+};
+
+function jsonLd(config: SiteConfig, page: JsonLdPage): null | Record<string, unknown> {
+  switch (page.kind) {
+  case 'post':
+    return {
+      '@context': 'https://schema.org',
+      '@type': 'BlogPosting',
+      headline: page.headline,
+      description: page.description,
+      inLanguage: page.language,
+      url: page.url,
+      mainEntityOfPage: page.url,
+      datePublished: page.published,
+      dateModified: page.modified,
+      keywords: page.tags.join(', '),
+      image: page.image,
+      author: page.authors.length === 0 ? {
+        '@type': 'Person',
+        name: config.author,
+      } : page.authors.map(author => ({
+        '@type': 'Person',
+        name: author.name,
+        url: author.url,
+      })),
+      publisher: {
+        '@type': 'Person',
+        name: config.author,
+        sameAs: config.social.map(profile => profile.url),
+      },
+    };
+  case 'series':
+    return {
+      '@context': 'https://schema.org',
+      '@type': 'BreadcrumbList',
+      itemListElement: [
+        {
+          '@type': 'ListItem',
+          position: 1,
+          name: config.title,
+          item: config.siteUrl,
+        },
+        {
+          '@type': 'ListItem',
+          position: 2,
+          name: page.headline,
+          item: page.url,
+        },
+      ],
+    };
+  case 'tag':
+    return {
+      '@context': 'https://schema.org',
+      '@type': 'CollectionPage',
+      name: page.headline,
+      description: page.description,
+      url: page.url,
+      isPartOf: {
+        '@type': 'WebSite',
+        name: config.title,
+        url: config.siteUrl,
+      },
+    };
+  case 'author':
+    return {
+      '@context': 'https://schema.org',
+      '@type': 'ProfilePage',
+      url: page.url,
+      mainEntity: {
+        '@type': 'Person',
+        name: page.headline,
+        description: page.description,
+        image: page.image,
+      },
+    };
+  default:
+    return null;
   }
-`;
\ No newline at end of file
+}
+
+function absoluteUrl(siteUrl: string, path: string): string {
+  return /^https?:\/\//.test(path) ? path : siteUrl + path;
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import React, {ReactElement} from 'react';
+import {Link} from 'gatsby';
+import * as styles from './series-table-of-contents.module.scss';
+import {pluralize, uiStrings} from '../../utils/language-registry';
+import {defaultLanguage} from '../../data/languages';
+
+type SeriesTableOfContentsProps = {
+  title: string;
+  current: number;
+  parts: {
+    part: number;
+    title: string;
+    slug: string;
+  }[];
+  language?: string;
+};
+
+export default function SeriesTableOfContents({title, current, parts, language = defaultLanguage}: SeriesTableOfContentsProps): ReactElement {
+  return (
+    <details className={styles.container}>
+      <summary>{title} ({pluralize(uiStrings(language).seriesParts, parts.length)})</summary>
+      <ol>
+        {parts.map(part => (
+          <li key={part.part} value={part.part} className={part.part === current ? styles.current : undefined}>
+            {part.part === current ? part.title : <Link to={part.slug}>{part.title}</Link>}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
\ No newline at end of file
@@ -1,20 +1,55 @@
 import {Link} from 'gatsby';
 import * as styles from './social-media.module.scss';
 import React, {ReactElement} from 'react';
-import {FaGithub, FaRssSquare, FaTag} from 'react-icons/fa';
+import {IconType} from 'react-icons';
+import {FaArchive, FaEnvelope, FaGithub, FaLinkedin, FaMastodon, FaRssSquare, FaSearch, FaTag, FaTwitter, FaUser} from 'react-icons/fa';
+import {feedPath} from '../../utils/feeds';
+import {NavIcon, site, SocialNetwork} from '../../data/site';
+import {uiStrings} from '../../utils/language-registry';
 
-export default function SocialMedia(): ReactElement {
+type SocialMediaProps = {
+  feed?: string;
+  language: string;
+};
+
+const navIcons: { [icon in NavIcon]: IconType } = {
+  tag: FaTag,
+  archive: FaArchive,
+  author: FaUser,
+  search: FaSearch,
+};
+
+const socialIcons: { [network in SocialNetwork]: IconType } = {
+  github: FaGithub,
+  twitter: FaTwitter,
+  mastodon: FaMastodon,
+  linkedin: FaLinkedin,
+  email: FaEnvelope,
+};
+
+export default function SocialMedia({feed, language}: SocialMediaProps): ReactElement {
+  const {rssFeed} = uiStrings(language);
   return (
     <div className={styles.container}>
-      <Link className={styles.tagLink} to="/tag">
-        <FaTag/>
-      </Link>
-      <a className={styles.githubLink} href="https://github.com/austindoupnik">
-        <FaGithub/>
-      </a>
-      <Link className={styles.rssLink} to="/rss.xml">
+      {site.nav.map(entry => {
+        const Icon = navIcons[entry.icon];
+        return (
+          <Link key={entry.path} className={styles.link} to={entry.path} title={entry.label} aria-label={entry.label}>
+            <Icon/>
+          </Link>
+        );
+      })}
+      {site.social.map(profile => {
+        const Icon = socialIcons[profile.network];
+        return (
+          <a key={profile.url} className={styles.link} href={profile.url} title={profile.label} aria-label={profile.label}>
+            <Icon/>
+          </a>
+        );
+      })}
+      <a className={styles.rssLink} href={feedPath(feed === undefined ? '/' : feed, 'rss')} title={rssFeed} aria-label={rssFeed}>
         <FaRssSquare/>
-      </Link>
+      </a>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+import React, {ReactElement, useEffect, useState} from 'react';
+import * as styles from './table-of-contents.module.scss';
+import {uiStrings} from '../../utils/language-registry';
+import {defaultLanguage} from '../../data/languages';
+
+export type Heading = {
+  id: null | string;
+  value: string;
+  depth: number;
+};
+
+type TableOfContentsProps = {
+  headings: Heading[];
+  language?: string;
+};
+
+type HeadingNode = {
+  id: string;
+  value: string;
+  depth: number;
+  children: HeadingNode[];
+};
+
+const activeOffset = 100;
+
+export default function TableOfContents({headings, language = defaultLanguage}: TableOfContentsProps): ReactElement {
+  const ids = headings.map(heading => heading.id).filter((id): id is string => id !== null);
+  const active = useActiveHeading(ids);
+
+  if (ids.length < 2) {
+    return <></>;
+  }
+
+  return (
+    <nav className={styles.container}>
+      <div className={styles.title}>{uiStrings(language).contents}</div>
+      {Headings(tree(headings), active)}
+    </nav>
+  );
+}
+
+function Headings(nodes: HeadingNode[], active: null | string): ReactElement {
+  return (
+    <ol>
+      {nodes.map(node => (
+        <li key={node.id}>
+          <a className={node.id === active ? styles.active : undefined} href={`#${node.id}`}>{node.value}</a>
+          {node.children.length === 0 ? <></> : Headings(node.children, active)}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function tree(headings: Heading[]): HeadingNode[] {
+  const root: HeadingNode = {id: '', value: '', depth: 0, children: []};
+  const stack = [root];
+  headings.forEach(({id, value, depth}) => {
+    if (id === null) {
+      return;
+    }
+    while (stack[stack.length - 1].depth >= depth) {
+      stack.pop();
+    }
+    const node = {id, value, depth, children: []};
+    stack[stack.length - 1].children.push(node);
+    stack.push(node);
+  });
+  return root.children;
+}
+
+function useActiveHeading(ids: string[]): null | string {
+  const [active, setActive] = useState<null | string>(null);
+  const key = ids.join(' ');
+
+  useEffect(() => {
+    const update = () => {
+      let current: null | string = null;
+      ids.forEach(id => {
+        const element = document.getElementById(id);
+        if (element !== null && element.getBoundingClientRect().top <= activeOffset) {
+          current = id;
+        }
+      });
+      setActive(current);
+    };
+
+    update();
+    window.addEventListener('scroll', update, {passive: true});
+    return () => window.removeEventListener('scroll', update);
+  }, [key]);
+
+  return active;
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import React, {ReactElement, useEffect, useState} from 'react';
+import {FaAdjust, FaMoon, FaSun} from 'react-icons/fa';
+import {applyTheme, saveTheme, storedTheme, Theme, themes, watchSystemTheme} from '../../utils/theme';
+import * as styles from './theme-toggle.module.scss';
+import {uiStrings} from '../../utils/language-registry';
+
+type ThemeToggleProps = {
+  language: string;
+};
+
+const icons: Record<Theme, ReactElement> = {
+  light: <FaSun/>,
+  dark: <FaMoon/>,
+  system: <FaAdjust/>,
+};
+
+export default function ThemeToggle({language}: ThemeToggleProps): ReactElement {
+  const {names, switchTo} = uiStrings(language).theme;
+  const [theme, setTheme] = useState<Theme>('system');
+
+  useEffect(() => setTheme(storedTheme()), []);
+
+  useEffect(() => {
+    if (theme !== 'system') {
+      return;
+    }
+    return watchSystemTheme(() => applyTheme('system'));
+  }, [theme]);
+
+  const next = themes[(themes.indexOf(theme) + 1) % themes.length];
+  const select = () => {
+    saveTheme(next);
+    applyTheme(next);
+    setTheme(next);
+  };
+
+  return (
+    <button className={styles.toggle} type="button" onClick={select} title={`${names[theme]} (${switchTo[next]})`} aria-label={switchTo[next]}>
+      {icons[theme]}
+    </button>
+  );
+}
\ No newline at end of file
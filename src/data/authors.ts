@@ -0,0 +1,25 @@
+export type AuthorEntry = {
+  id: string;
+  name: string;
+  bio?: string;
+  avatar?: string;
+  links?: {
+    github?: string;
+    twitter?: string;
+    website?: string;
+  };
+};
+
+export const defaultAuthor = 'austin-doupnik';
+
+export const authors: AuthorEntry[] = [
+  {
+    id: 'austin-doupnik',
+    name: 'Austin Doupnik',
+    bio: 'Software engineer writing about Rust, rendering and whatever else I am tinkering with.',
+    avatar: 'https://github.com/austindoupnik.png',
+    links: {
+      github: 'https://github.com/austindoupnik',
+    },
+  },
+];
\ No newline at end of file
@@ -0,0 +1,264 @@
+export type Plural = {
+  one: string;
+  other: string;
+};
+
+export type ThemeStrings = {
+  light: string;
+  dark: string;
+  system: string;
+};
+
+export type UiStrings = {
+  by: string;
+  and: string;
+  updatedOn: string;
+  seriesPart: string;
+  seriesParts: Plural;
+  readingTime: string;
+  continueReading: string;
+  relatedPosts: string;
+  contents: string;
+  revisionHistory: Plural;
+  translations: string;
+  pager: {
+    first: string;
+    previous: string;
+    next: string;
+    last: string;
+    page: string;
+  };
+  notFound: {
+    title: string;
+    exclamation: string;
+    message: string;
+  };
+  offline: {
+    title: string;
+    message: string;
+  };
+  feed: {
+    title: string;
+    description: string;
+  };
+  archive: {
+    title: string;
+    posts: Plural;
+  };
+  tagIndex: {
+    title: string;
+    name: string;
+    posts: string;
+    lastUsed: string;
+  };
+  search: {
+    title: string;
+    label: string;
+    allTags: string;
+    allSeries: string;
+    loading: string;
+    noResults: string;
+    failed: string;
+  };
+  theme: {
+    names: ThemeStrings;
+    switchTo: ThemeStrings;
+  };
+  rssFeed: string;
+  copyCode: {
+    copy: string;
+    copied: string;
+    failed: string;
+  };
+  saveOffline: {
+    save: string;
+    saving: string;
+    saved: string;
+    failed: string;
+  };
+  lightbox: {
+    zoomIn: string;
+    zoomOut: string;
+    previous: string;
+    next: string;
+    close: string;
+  };
+  comparisonPosition: string;
+};
+
+export type LanguageEntry = {
+  code: string;
+  name: string;
+  locale: string;
+  dateFormat: string;
+  strings: UiStrings;
+};
+
+export const defaultLanguage = 'en';
+
+export const languages: LanguageEntry[] = [
+  {
+    code: 'en',
+    name: 'English',
+    locale: 'en-US',
+    dateFormat: 'MMMM DD, YYYY',
+    strings: {
+      by: 'by',
+      and: 'and',
+      updatedOn: 'Updated on {date}',
+      seriesPart: 'Part {part} of',
+      seriesParts: {one: '{count} part', other: '{count} parts'},
+      readingTime: '{minutes} min read ({words} words)',
+      continueReading: 'Continue reading →',
+      relatedPosts: 'Related posts',
+      contents: 'Contents',
+      revisionHistory: {one: 'Revision history ({count} change)', other: 'Revision history ({count} changes)'},
+      translations: 'Also available in',
+      pager: {
+        first: '« First',
+        previous: '‹ Previous',
+        next: 'Next ›',
+        last: 'Last »',
+        page: 'Page {current} of {count}',
+      },
+      notFound: {
+        title: 'Page not found',
+        exclamation: 'Oops!',
+        message: 'The page you are looking for has been removed, relocated, or never existed.',
+      },
+      offline: {
+        title: 'You are offline',
+        message: 'This page has not been saved for offline reading. Posts you have visited before and series you have saved are still available.',
+      },
+      feed: {
+        title: 'Posts in English',
+        description: 'Posts written in English',
+      },
+      archive: {
+        title: 'Archive',
+        posts: {one: '{count} post', other: '{count} posts'},
+      },
+      tagIndex: {
+        title: 'Tags',
+        name: 'Name',
+        posts: 'Posts',
+        lastUsed: 'Last used',
+      },
+      search: {
+        title: 'Search',
+        label: 'Search posts',
+        allTags: 'All tags',
+        allSeries: 'All series',
+        loading: 'Loading…',
+        noResults: 'No posts match {query}.',
+        failed: 'The search index could not be loaded. Check your connection and try again.',
+      },
+      theme: {
+        names: {light: 'Light theme', dark: 'Dark theme', system: 'System theme'},
+        switchTo: {light: 'Switch to light theme', dark: 'Switch to dark theme', system: 'Switch to system theme'},
+      },
+      rssFeed: 'RSS feed',
+      copyCode: {
+        copy: 'Copy',
+        copied: 'Copied!',
+        failed: 'Copy failed',
+      },
+      saveOffline: {
+        save: 'Save series for offline',
+        saving: 'Saving…',
+        saved: 'Saved for offline',
+        failed: 'Saving failed, try again',
+      },
+      lightbox: {
+        zoomIn: 'Zoom in',
+        zoomOut: 'Zoom out',
+        previous: 'Previous image',
+        next: 'Next image',
+        close: 'Close',
+      },
+      comparisonPosition: 'Comparison position',
+    },
+  },
+  {
+    code: 'de',
+    name: 'Deutsch',
+    locale: 'de-DE',
+    dateFormat: 'D. MMMM YYYY',
+    strings: {
+      by: 'von',
+      and: 'und',
+      updatedOn: 'Aktualisiert am {date}',
+      seriesPart: 'Teil {part} von',
+      seriesParts: {one: '{count} Teil', other: '{count} Teile'},
+      readingTime: '{minutes} Min. Lesezeit ({words} Wörter)',
+      continueReading: 'Weiterlesen →',
+      relatedPosts: 'Ähnliche Beiträge',
+      contents: 'Inhalt',
+      revisionHistory: {one: 'Änderungsverlauf ({count} Änderung)', other: 'Änderungsverlauf ({count} Änderungen)'},
+      translations: 'Auch verfügbar auf',
+      pager: {
+        first: '« Erste',
+        previous: '‹ Zurück',
+        next: 'Weiter ›',
+        last: 'Letzte »',
+        page: 'Seite {current} von {count}',
+      },
+      notFound: {
+        title: 'Seite nicht gefunden',
+        exclamation: 'Hoppla!',
+        message: 'Die gesuchte Seite wurde entfernt, verschoben oder hat nie existiert.',
+      },
+      offline: {
+        title: 'Du bist offline',
+        message: 'Diese Seite wurde nicht für das Offline-Lesen gespeichert. Bereits besuchte Beiträge und gespeicherte Serien sind weiterhin verfügbar.',
+      },
+      feed: {
+        title: 'Beiträge auf Deutsch',
+        description: 'Auf Deutsch verfasste Beiträge',
+      },
+      archive: {
+        title: 'Archiv',
+        posts: {one: '{count} Beitrag', other: '{count} Beiträge'},
+      },
+      tagIndex: {
+        title: 'Tags',
+        name: 'Name',
+        posts: 'Beiträge',
+        lastUsed: 'Zuletzt verwendet',
+      },
+      search: {
+        title: 'Suche',
+        label: 'Beiträge durchsuchen',
+        allTags: 'Alle Tags',
+        allSeries: 'Alle Serien',
+        loading: 'Wird geladen…',
+        noResults: 'Keine Beiträge passen zu {query}.',
+        failed: 'Der Suchindex konnte nicht geladen werden. Prüfe deine Verbindung und versuche es erneut.',
+      },
+      theme: {
+        names: {light: 'Helles Design', dark: 'Dunkles Design', system: 'Systemdesign'},
+        switchTo: {light: 'Zu hellem Design wechseln', dark: 'Zu dunklem Design wechseln', system: 'Zum Systemdesign wechseln'},
+      },
+      rssFeed: 'RSS-Feed',
+      copyCode: {
+        copy: 'Kopieren',
+        copied: 'Kopiert!',
+        failed: 'Kopieren fehlgeschlagen',
+      },
+      saveOffline: {
+        save: 'Serie offline speichern',
+        saving: 'Wird gespeichert…',
+        saved: 'Offline gespeichert',
+        failed: 'Speichern fehlgeschlagen, bitte erneut versuchen',
+      },
+      lightbox: {
+        zoomIn: 'Vergrößern',
+        zoomOut: 'Verkleinern',
+        previous: 'Vorheriges Bild',
+        next: 'Nächstes Bild',
+        close: 'Schließen',
+      },
+      comparisonPosition: 'Vergleichsposition',
+    },
+  },
+];
\ No newline at end of file
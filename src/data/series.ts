@@ -0,0 +1,15 @@
+export type SeriesInfo = {
+  title: string;
+  description: string;
+};
+
+export const series: SeriesInfo[] = [
+  {
+    title: 'Ray Tracing in One Weekend with Rust',
+    description: 'Working through Peter Shirley\'s Ray Tracing in One Weekend chapter by chapter, building a ray tracer in Rust from an empty image to the final render of the book cover.',
+  },
+  {
+    title: 'Ray Tracing: The Next Week',
+    description: 'Continuing the Rust ray tracer with Ray Tracing: The Next Week, adding motion blur, bounding volume hierarchies, textures and lights.',
+  },
+];
\ No newline at end of file
@@ -0,0 +1,80 @@
+export type SocialNetwork = 'github' | 'twitter' | 'mastodon' | 'linkedin' | 'email';
+
+export type NavIcon = 'tag' | 'archive' | 'author' | 'search';
+
+export type SocialProfile = {
+  network: SocialNetwork;
+  url: string;
+  label: string;
+};
+
+export type NavEntry = {
+  path: string;
+  label: string;
+  icon: NavIcon;
+};
+
+export type SiteConfig = {
+  title: string;
+  shortTitle: string;
+  description: string;
+  author: string;
+  siteUrl: string;
+  postsPerPage: number;
+  social: SocialProfile[];
+  nav: NavEntry[];
+  feeds: {
+    title: string;
+    files: {
+      rss: string;
+      atom: string;
+      json: string;
+    };
+  };
+  prompt: {
+    user: string;
+    host: string;
+    global: boolean;
+  };
+};
+
+export const site: SiteConfig = {
+  title: 'Austin Doupnik',
+  shortTitle: 'Austin Doupnik',
+  description: 'Austin Doupnik\'s Web Log',
+  author: 'Austin Doupnik',
+  siteUrl: 'https://austindoupnik.github.io',
+  postsPerPage: 10,
+  social: [
+    {
+      network: 'github',
+      url: 'https://github.com/austindoupnik',
+      label: 'GitHub',
+    },
+  ],
+  nav: [
+    {
+      path: '/tag',
+      label: 'Tags',
+      icon: 'tag',
+    },
+    {
+      path: '/archive',
+      label: 'Archive',
+      icon: 'archive',
+    },
+  ],
+  feeds: {
+    title: 'Austin Doupnik\'s Web Log',
+    files: {
+      rss: 'rss.xml',
+      atom: 'atom.xml',
+      json: 'feed.json',
+    },
+  },
+  prompt: {
+    user: 'austind',
+    host: 'localhost',
+    global: false,
+  },
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+export type TagEntry = {
+  name: string;
+  displayName?: string;
+  description?: string;
+  aliases?: string[];
+};
+
+export const tags: TagEntry[] = [
+  {
+    name: 'rust',
+    displayName: 'Rust',
+    description: 'Posts written in or about the Rust programming language.',
+  },
+  {
+    name: 'ray tracing',
+    displayName: 'Ray Tracing',
+    description: 'Rendering images by following rays of light through a scene, mostly by working through the Ray Tracing in One Weekend book series.',
+    aliases: ['raytracing', 'ray-tracing'],
+  },
+];
\ No newline at end of file
@@ -1,11 +1,19 @@
 import React, {ReactElement} from 'react';
 import Layout from '../components/layout/layout';
+import {uiStrings} from '../utils/language-registry';
 
-export default function PageNotFound(): ReactElement {
+type PageNotFoundProps = {
+  pageContext: {
+    language: string;
+  };
+};
+
+export default function PageNotFound({pageContext: {language}}: PageNotFoundProps): ReactElement {
+  const {notFound} = uiStrings(language);
   return (
-    <Layout>
-      <h2>Page not found</h2>
-      <p><b>Oops!</b> The page you are looking for has been removed, relocated, or never existed.</p>
+    <Layout language={language}>
+      <h2>{notFound.title}</h2>
+      <p><b>{notFound.exclamation}</b> {notFound.message}</p>
     </Layout>
   );
 }
\ No newline at end of file
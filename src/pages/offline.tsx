@@ -0,0 +1,19 @@
+import React, {ReactElement} from 'react';
+import Layout from '../components/layout/layout';
+import {uiStrings} from '../utils/language-registry';
+
+type OfflineProps = {
+  pageContext: {
+    language: string;
+  };
+};
+
+export default function Offline({pageContext: {language}}: OfflineProps): ReactElement {
+  const {offline} = uiStrings(language);
+  return (
+    <Layout language={language} subtitle={offline.title}>
+      <h2>{offline.title}</h2>
+      <p>{offline.message}</p>
+    </Layout>
+  );
+}
\ No newline at end of file
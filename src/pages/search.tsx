@@ -0,0 +1,92 @@
+import React, {ReactElement, useEffect, useState} from 'react';
+import {Link} from 'gatsby';
+import Layout from '../components/layout/layout';
+import {search, SearchDocument, searchIndexPath, SearchResult, SnippetPart} from '../utils/search';
+import * as styles from './search.module.scss';
+import {UiStrings} from '../data/languages';
+import {uiStrings} from '../utils/language-registry';
+
+type SearchProps = {
+  location: {
+    search: string;
+  };
+  pageContext: {
+    language: string;
+  };
+};
+
+export default function Search({location, pageContext: {language}}: SearchProps): ReactElement {
+  const strings = uiStrings(language).search;
+  const [documents, setDocuments] = useState<null | SearchDocument[]>(null);
+  const [failed, setFailed] = useState(false);
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<null | string>(null);
+  const [series, setSeries] = useState<null | string>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    setQuery(params.get('q') || '');
+    setTag(params.get('tag'));
+    setSeries(params.get('series'));
+  }, [location.search]);
+
+  useEffect(() => {
+    fetch(searchIndexPath)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Search index responded with ${response.status}`);
+        }
+        return response.json();
+      })
+      .then(setDocuments)
+      .catch(() => setFailed(true));
+  }, []);
+
+  const results = documents === null ? [] : search(documents, query, {tag, series});
+
+  return (
+    <Layout subtitle={strings.title} seo={{path: '/search'}} language={language}>
+      <form className={styles.form} onSubmit={e => e.preventDefault()} role="search">
+        <input type="search" name="q" value={query} onChange={e => setQuery(e.target.value)} placeholder={strings.label} aria-label={strings.label} autoFocus/>
+        {Filter('tag', strings.allTags, documents === null ? [] : ([] as string[]).concat(...documents.map(document => document.tags)), tag, setTag)}
+        {Filter('series', strings.allSeries, documents === null ? [] : documents.map(document => document.series), series, setSeries)}
+      </form>
+      {failed ? <p>{strings.failed}</p> : documents === null ? <p>{strings.loading}</p> : Results(query, results, strings)}
+    </Layout>
+  );
+}
+
+function Filter(name: string, label: string, values: (null | string)[], value: null | string, setValue: (value: null | string) => void): ReactElement {
+  const options = Array.from(new Set(values.filter((v): v is string => v !== null))).sort((a, b) => a.localeCompare(b));
+  return (
+    <select name={name} value={value || ''} onChange={e => setValue(e.target.value === '' ? null : e.target.value)} aria-label={label}>
+      <option value="">{label}</option>
+      {options.map(option => <option key={option} value={option}>{option}</option>)}
+    </select>
+  );
+}
+
+function Results(query: string, results: SearchResult[], strings: UiStrings['search']): ReactElement {
+  if (query.trim() === '') {
+    return <></>;
+  }
+  if (results.length === 0) {
+    const [before, after] = strings.noResults.split('{query}');
+    return <p>{before}<b>{query}</b>{after}</p>;
+  }
+  return (
+    <ol className={styles.results}>
+      {results.map(({document, snippet}) => (
+        <li key={document.slug}>
+          <Link to={document.slug}>{document.series === null ? '' : `${document.series}: `}{document.title}</Link>
+          <div className={styles.date}>{document.date}</div>
+          <p>{snippet.map(Snippet)}</p>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function Snippet({text, highlighted}: SnippetPart, i: number): ReactElement {
+  return highlighted ? <mark key={i}>{text}</mark> : <React.Fragment key={i}>{text}</React.Fragment>;
+}
\ No newline at end of file
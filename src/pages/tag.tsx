@@ -1,6 +1,10 @@
-import React, {ReactElement} from 'react';
+import React, {ReactElement, useState} from 'react';
 import {graphql, Link} from 'gatsby';
 import Layout from '../components/layout/layout';
+import {canonicalTags, tagInfo, tagSlug} from '../utils/tag-registry';
+import * as styles from './tag.module.scss';
+import {UiStrings} from '../data/languages';
+import {uiStrings} from '../utils/language-registry';
 
 type QueryResult = {
   data: {
@@ -9,46 +13,121 @@ type QueryResult = {
         node: {
           frontmatter: {
             tags: string[];
+            date: string;
+            lastUsed: string;
           };
         };
       }[];
     };
   };
+
+  pageContext: {
+    language: string;
+  };
 }
 
-function countTaggedPosts(tags: Map<string, number>): (tag: string) => void {
-  return tag => {
-    const count = tags.get(tag);
-    if (count == undefined) {
-      tags.set(tag, 1);
+type TagSummary = {
+  tag: string;
+  count: number;
+  date: string;
+  lastUsed: string;
+};
+
+type SortOrder = 'name' | 'count' | 'lastUsed';
+
+const sortOrders: { [order in SortOrder]: { label: keyof UiStrings['tagIndex'], compare: (a: TagSummary, b: TagSummary) => number } } = {
+  name: {
+    label: 'name',
+    compare: (a, b) => tagInfo(a.tag).displayName.localeCompare(tagInfo(b.tag).displayName),
+  },
+  count: {
+    label: 'posts',
+    compare: (a, b) => b.count - a.count,
+  },
+  lastUsed: {
+    label: 'lastUsed',
+    compare: (a, b) => b.date.localeCompare(a.date),
+  },
+};
+
+const minFontSize = 1;
+const maxFontSize = 2.5;
+
+function summarizeTags(edges: QueryResult['data']['allMarkdownRemark']['edges']): TagSummary[] {
+  const tags = new Map<string, TagSummary>();
+  edges.forEach(({node: {frontmatter}}) => canonicalTags(frontmatter.tags).forEach(tag => {
+    const summary = tags.get(tag);
+    if (summary === undefined) {
+      tags.set(tag, {tag, count: 1, date: frontmatter.date, lastUsed: frontmatter.lastUsed});
     } else {
-      tags.set(tag, count + 1);
+      summary.count++;
+      if (frontmatter.date > summary.date) {
+        summary.date = frontmatter.date;
+        summary.lastUsed = frontmatter.lastUsed;
+      }
     }
-  };
+  }));
+  return Array.from(tags.values());
 }
 
-function sortedTags(tags: Map<string, number>): [string, number][] {
-  return Array.from(tags.entries()).sort(([a,], [b,]) => a.localeCompare(b));
+function fontSize(count: number, min: number, max: number): string {
+  const weight = max === min ? 1 : (count - min) / (max - min);
+  return `${minFontSize + weight * (maxFontSize - minFontSize)}em`;
 }
 
-export default function Tag({data: {allMarkdownRemark: {edges}}}: QueryResult): ReactElement {
-  const tags = new Map<string, number>();
-  edges.forEach(edge => edge.node.frontmatter.tags.forEach(countTaggedPosts(tags)));
+export default function Tag({data: {allMarkdownRemark: {edges}}, pageContext: {language}}: QueryResult): ReactElement {
+  const {tagIndex} = uiStrings(language);
+  const [order, setOrder] = useState<SortOrder>('name');
+  const tags = summarizeTags(edges);
+  const counts = tags.map(tag => tag.count);
+  const min = Math.min(...counts);
+  const max = Math.max(...counts);
 
   return (
-    <Layout>
-      {sortedTags(tags).map(([tag, count]) => <p key={tag}><Link to={`/tag/${tag}`}>{tag}</Link> ({count})</p>)}
+    <Layout subtitle={tagIndex.title} seo={{path: '/tag'}} language={language}>
+      <div className={styles.cloud}>
+        {[...tags].sort(sortOrders.name.compare).map(({tag, count}) => (
+          <Link key={tag} to={tagSlug(tag)} style={{fontSize: fontSize(count, min, max)}}>
+            #{tagInfo(tag).displayName}
+          </Link>
+        ))}
+      </div>
+
+      <table className={styles.index}>
+        <thead>
+          <tr>
+            {(Object.keys(sortOrders) as SortOrder[]).map(key => (
+              <th key={key}>
+                <button className={key === order ? styles.active : undefined} onClick={() => setOrder(key)}>
+                  {tagIndex[sortOrders[key].label]}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {[...tags].sort(sortOrders[order].compare).map(({tag, count, lastUsed}) => (
+            <tr key={tag}>
+              <td><Link to={tagSlug(tag)}>{tagInfo(tag).displayName}</Link></td>
+              <td>{count}</td>
+              <td>{lastUsed}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
     </Layout>
   );
 }
 
 export const query = graphql`
-  {
-    allMarkdownRemark {
+  query TagIndex($language: String!, $dateFormat: String!) {
+    allMarkdownRemark(filter: {visible: {eq: true}, fields: {language: {eq: $language}}}) {
       edges {
         node {
           frontmatter {
             tags
+            date
+            lastUsed: date(formatString: $dateFormat, locale: $language)
           }
         }
       }
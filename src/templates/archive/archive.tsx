@@ -0,0 +1,115 @@
+import React, {ReactElement} from 'react';
+import {graphql, Link} from 'gatsby';
+import Layout from '../../components/layout/layout';
+import BlogPostList from '../../components/blog-post-list/blog-post-list';
+import {PostStatus} from '../../utils/post-status';
+import * as styles from './archive.module.scss';
+import {pluralize, uiStrings} from '../../utils/language-registry';
+
+type Post = {
+  node: {
+    fields: {
+      slug: string;
+    };
+    status: PostStatus;
+    frontmatter: {
+      title: string;
+      series: null | {
+        title: string;
+        part: number;
+      };
+      date: string;
+      published: string;
+      year: string;
+      month: string;
+      tags: string[];
+    };
+  };
+};
+
+type QueryResult = {
+  data: {
+    allMarkdownRemark: {
+      edges: Post[];
+    };
+  };
+
+  pageContext: {
+    language: string;
+    groupBy: 'year' | 'month';
+    period: null | string;
+  };
+}
+
+type Group = {
+  label: string;
+  slug: string;
+  posts: Post[];
+};
+
+function groupPosts(posts: Post[], groupBy: 'year' | 'month'): Group[] {
+  const groups: Group[] = [];
+  posts.forEach(post => {
+    const {published, year, month} = post.node.frontmatter;
+    const slug = groupBy === 'year' ? `/archive/${published.slice(0, 4)}` : `/archive/${published.slice(0, 7).replace('-', '/')}`;
+    const last = groups[groups.length - 1];
+    if (last !== undefined && last.slug === slug) {
+      last.posts.push(post);
+    } else {
+      groups.push({label: groupBy === 'year' ? year : month, slug, posts: [post]});
+    }
+  });
+  return groups;
+}
+
+export default function Archive({data: {allMarkdownRemark: {edges}}, pageContext}: QueryResult): ReactElement {
+  const {archive} = uiStrings(pageContext.language);
+  const groups = groupPosts(edges, pageContext.groupBy);
+  const title = pageContext.period === null || groups.length === 0 ? archive.title : `${archive.title} - ${pageContext.period.length === 4 ? pageContext.period : groups[0].label}`;
+  const path = pageContext.period === null ? '/archive' : `/archive/${pageContext.period.replace('-', '/')}`;
+
+  return (
+    <Layout subtitle={title} seo={{path}} language={pageContext.language}>
+      <header className={styles.header}>
+        <h2>{title}</h2>
+        <p>{pluralize(archive.posts, edges.length)}</p>
+      </header>
+      {groups.map(group => (
+        <section key={group.slug} className={styles.group}>
+          <h3>
+            {group.slug === path ? group.label : <Link to={group.slug}>{group.label}</Link>}
+            {' '}<span className={styles.count}>({group.posts.length})</span>
+          </h3>
+          <BlogPostList posts={group.posts} language={pageContext.language}/>
+        </section>
+      ))}
+    </Layout>
+  );
+}
+
+export const query = graphql`
+  query BlogPostsByPeriod($start: Date!, $end: Date!, $language: String!, $dateFormat: String!) {
+    allMarkdownRemark(filter: {frontmatter: {date: {gte: $start, lt: $end}}, visible: {eq: true}, fields: {language: {eq: $language}}}, sort: {fields: frontmatter___date, order: DESC}) {
+      edges {
+        node {
+          fields {
+            slug
+          }
+          status
+          frontmatter {
+            title
+            date(formatString: $dateFormat, locale: $language)
+            published: date
+            year: date(formatString: "YYYY")
+            month: date(formatString: "MMMM YYYY", locale: $language)
+            series {
+              title
+              part
+            }
+            tags
+          }
+        }
+      }
+    }
+  }
+`;
\ No newline at end of file
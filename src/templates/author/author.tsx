@@ -0,0 +1,99 @@
+import React, {ReactElement} from 'react';
+import {graphql} from 'gatsby';
+import {FaGithub, FaGlobe, FaTwitter} from 'react-icons/fa';
+import Layout from '../../components/layout/layout';
+import BlogPostList from '../../components/blog-post-list/blog-post-list';
+import {PostStatus} from '../../utils/post-status';
+import Pager, {PagerProps} from '../../components/pager/pager';
+import {pagePath} from '../../utils/pagination';
+import {authorInfo} from '../../utils/author-registry';
+import * as styles from './author.module.scss';
+
+type QueryResult = {
+  data: {
+    allMarkdownRemark: {
+      edges: {
+        node: {
+          fields: {
+            slug: string;
+            authors: string[];
+          };
+          status: PostStatus;
+          frontmatter: {
+            title: string;
+            series: null | {
+              title: string;
+              part: number;
+            };
+            date: string;
+            tags: string[];
+          };
+          summary: string;
+          thumbnail: null | string;
+        };
+      }[];
+    };
+  };
+
+  pageContext: PagerProps & {
+    author: string;
+    slug: string;
+  };
+}
+
+export default function Author({data: {allMarkdownRemark: {edges}}, pageContext}: QueryResult): ReactElement {
+  const {name, bio, avatar, links} = authorInfo(pageContext.author);
+  return (
+    <Layout
+      subtitle={name}
+      footer={<Pager {...pageContext}/>}
+      seo={{
+        kind: 'author',
+        path: pagePath(pageContext.slug, pageContext.currentPage),
+        description: bio === null ? `Posts by ${name}` : bio,
+        image: avatar === null ? undefined : avatar,
+      }}
+    >
+      <header className={styles.header}>
+        {avatar === null ? <></> : <img className={styles.avatar} src={avatar} alt={name}/>}
+        <div>
+          <h2>{name}</h2>
+          {bio === null ? <></> : <p>{bio}</p>}
+          <div className={styles.links}>
+            {links.github === null ? <></> : <a href={links.github} aria-label="GitHub"><FaGithub/></a>}
+            {links.twitter === null ? <></> : <a href={links.twitter} aria-label="Twitter"><FaTwitter/></a>}
+            {links.website === null ? <></> : <a href={links.website} aria-label="Website"><FaGlobe/></a>}
+          </div>
+        </div>
+      </header>
+      <BlogPostList posts={edges}/>
+    </Layout>
+  );
+}
+
+export const query = graphql`
+  query BlogPostByAuthor($author: String!, $language: String!, $dateFormat: String!, $skip: Int!, $limit: Int!) {
+    allMarkdownRemark(filter: {visible: {eq: true}, fields: {authors: {in: [$author]}, language: {eq: $language}}}, sort: {fields: frontmatter___date, order: DESC}, skip: $skip, limit: $limit) {
+      edges {
+        node {
+          fields {
+            slug
+            authors
+          }
+          status
+          frontmatter {
+            title
+            date(formatString: $dateFormat, locale: $language)
+            tags
+            series {
+              title
+              part
+            }
+          }
+          summary
+          thumbnail
+        }
+      }
+    }
+  }
+`;
\ No newline at end of file
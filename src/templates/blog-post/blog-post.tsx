@@ -1,9 +1,21 @@
-import React, {ReactElement} from 'react';
+import React, {ReactElement, useEffect, useRef, useState} from 'react';
 import {graphql} from 'gatsby';
 import Layout from '../../components/layout/layout';
 import NavigationFooter from '../../components/navigation-footer/navigation-footer';
 import * as styles from './blog-post.module.scss';
 import BlogPostHeader from '../../components/blog-post-header/blog-post-header';
+import {PostStatus} from '../../utils/post-status';
+import SeriesTableOfContents from '../../components/series-table-of-contents/series-table-of-contents';
+import BlogPostList, {BlogPostProps} from '../../components/blog-post-list/blog-post-list';
+import {socialImagePath} from '../../utils/social-images';
+import TableOfContents, {Heading} from '../../components/table-of-contents/table-of-contents';
+import {addCopyButtons} from '../../utils/code-blocks';
+import {enhanceComparisons, enhanceGalleries, GalleryImage} from '../../utils/image-containers';
+import Lightbox from '../../components/lightbox/lightbox';
+import PostChangelog from '../../components/post-changelog/post-changelog';
+import {authorInfo, authorSlug} from '../../utils/author-registry';
+import LanguageSwitcher, {Translation} from '../../components/language-switcher/language-switcher';
+import {uiStrings} from '../../utils/language-registry';
 
 import 'katex/dist/katex.min.css';
 
@@ -17,16 +29,33 @@ type QueryResult = {
           part: number;
         };
         date: string;
+        published: string;
         tags: string[];
+        changelog: null | {
+          date: string;
+          note: string;
+        }[];
       };
       fields: {
         slug: string;
+        authors: string[];
+        updated: null | string;
+        modified: null | string;
       };
+      status: PostStatus;
       html: string;
+      summary: string;
+      headings: Heading[];
+      timeToRead: number;
+      wordCount: {
+        words: number;
+      };
     };
   };
 
   pageContext: {
+    language: string;
+    translations: Translation[];
     previous: {
       fields: {
         slug: string;
@@ -43,10 +72,22 @@ type QueryResult = {
         title: string;
       };
     };
+    seriesParts: {
+      part: number;
+      title: string;
+      slug: string;
+    }[];
+    relatedPosts: BlogPostProps[];
   }
 }
 
-export default function BlogPost({data: {markdownRemark: {frontmatter, fields, html}}, pageContext}: QueryResult): ReactElement {
+export default function BlogPost({data: {markdownRemark: {frontmatter, fields, status, html, summary, headings, timeToRead, wordCount}}, pageContext}: QueryResult): ReactElement {
+  const article = useRef<HTMLDivElement>(null);
+  const [gallery, setGallery] = useState<null | { images: GalleryImage[], index: number }>(null);
+  useEffect(() => article.current === null ? undefined : addCopyButtons(article.current, uiStrings(pageContext.language).copyCode), [html]);
+  useEffect(() => article.current === null ? undefined : enhanceComparisons(article.current, uiStrings(pageContext.language).comparisonPosition), [html]);
+  useEffect(() => article.current === null ? undefined : enhanceGalleries(article.current, (images, index) => setGallery({images, index})), [html]);
+
   const prev = pageContext.previous == null ? null : {
     slug: pageContext.previous.fields.slug,
     title: pageContext.previous.frontmatter.title,
@@ -55,41 +96,104 @@ export default function BlogPost({data: {markdownRemark: {frontmatter, fields, h
     slug: pageContext.next.fields.slug,
     title: pageContext.next.frontmatter.title,
   };
+  const {language, translations} = pageContext;
 
   return (
-    <Layout subtitle={frontmatter.title} footer={<NavigationFooter prev={prev} next={next}/>}>
+    <Layout
+      language={language}
+      subtitle={frontmatter.title}
+      footer={<NavigationFooter prev={prev} next={next}/>}
+      seo={{
+        kind: 'post',
+        path: fields.slug,
+        description: summary,
+        published: frontmatter.published,
+        modified: fields.modified === null ? undefined : fields.modified,
+        tags: frontmatter.tags,
+        authors: fields.authors.map(author => ({name: authorInfo(author).name, path: authorSlug(author)})),
+        image: socialImagePath(fields.slug),
+        alternates: translations.map(translation => ({language: translation.language, path: translation.slug})),
+      }}
+    >
       <div className={styles.container}>
         <article>
           <BlogPostHeader
             slug={fields.slug}
+            status={status}
             title={frontmatter.title}
             series={frontmatter.series}
             tags={frontmatter.tags}
+            authors={fields.authors}
             date={frontmatter.date}
+            updated={fields.updated}
+            timeToRead={timeToRead}
+            wordCount={wordCount.words}
+            language={language}
           />
-          <div className={styles.article} dangerouslySetInnerHTML={{__html: html}}/>
+          <LanguageSwitcher language={language} translations={translations}/>
+          {frontmatter.series === null ? <></> : <SeriesTableOfContents title={frontmatter.series.title} current={frontmatter.series.part} parts={pageContext.seriesParts} language={language}/>}
+          <div className={styles.body}>
+            <TableOfContents headings={headings} language={language}/>
+            <div className={styles.article}>
+              <div ref={article} dangerouslySetInnerHTML={{__html: html}}/>
+              {frontmatter.changelog === null ? <></> : <PostChangelog entries={frontmatter.changelog} language={language}/>}
+            </div>
+            {gallery === null ? <></> : (
+              <Lightbox
+                images={gallery.images}
+                index={gallery.index}
+                onChange={index => setGallery(index === null ? null : {images: gallery.images, index})}
+                language={language}
+              />
+            )}
+          </div>
         </article>
+        {pageContext.relatedPosts.length === 0 ? <></> : (
+          <section className={styles.related}>
+            <h3>{uiStrings(language).relatedPosts}</h3>
+            <BlogPostList posts={pageContext.relatedPosts.map(node => ({node}))} language={language}/>
+          </section>
+        )}
       </div>
     </Layout>
   );
 }
 
 export const query = graphql`
-  query BlogPostBySlug($slug: String!) {
+  query BlogPostBySlug($slug: String!, $language: String!, $dateFormat: String!) {
     markdownRemark(fields: { slug: { eq: $slug } }) {
       html
+      summary
+      headings {
+        id
+        value
+        depth
+      }
+      timeToRead
+      wordCount {
+        words
+      }
       frontmatter {
         title
         series {
           title
           part
         }
-        date(formatString: "MMMM DD, YYYY")
+        date(formatString: $dateFormat, locale: $language)
+        published: date
         tags
+        changelog {
+          date(formatString: $dateFormat, locale: $language)
+          note
+        }
       }
       fields {
         slug
+        authors
+        updated(formatString: $dateFormat, locale: $language)
+        modified: updated
       }
+      status
     }
   }
 `;
\ No newline at end of file
@@ -0,0 +1,80 @@
+import React, {ReactElement} from 'react';
+import {graphql} from 'gatsby';
+import Layout from '../../components/layout/layout';
+import BlogPostList from '../../components/blog-post-list/blog-post-list';
+import {PostStatus} from '../../utils/post-status';
+import Pager, {PagerProps} from '../../components/pager/pager';
+import {pagePath} from '../../utils/pagination';
+import {defaultLanguage} from '../../data/languages';
+import {uiStrings} from '../../utils/language-registry';
+
+type QueryResult = {
+  data: {
+    allMarkdownRemark: {
+      edges: {
+        node: {
+          frontmatter: {
+            title: string;
+            series: null | {
+              title: string;
+              part: number;
+            };
+            date: string;
+            tags: string[];
+          };
+          fields: {
+            slug: string;
+            authors: string[];
+          };
+          status: PostStatus;
+          summary: string;
+          thumbnail: null | string;
+        };
+      }[];
+    };
+  };
+
+  pageContext: PagerProps & {
+    language: string;
+  };
+};
+
+export default function Index({data: {allMarkdownRemark: {edges}}, pageContext}: QueryResult): ReactElement {
+  return (
+    <Layout
+      language={pageContext.language}
+      footer={<Pager {...pageContext}/>}
+      feed={pageContext.language === defaultLanguage ? undefined : {title: uiStrings(pageContext.language).feed.title, path: pageContext.basePath}}
+      seo={{path: pagePath(pageContext.basePath, pageContext.currentPage)}}
+    >
+      <BlogPostList posts={edges} language={pageContext.language}/>
+    </Layout>
+  );
+}
+
+export const query = graphql`
+  query BlogPostIndex($language: String!, $dateFormat: String!, $skip: Int!, $limit: Int!) {
+    allMarkdownRemark(filter: {visible: {eq: true}, fields: {language: {eq: $language}}}, sort: {fields: frontmatter___date, order: DESC}, skip: $skip, limit: $limit) {
+      edges {
+        node {
+          frontmatter {
+            title
+            series {
+              title
+              part
+            }
+            date(formatString: $dateFormat, locale: $language)
+            tags
+          }
+          fields {
+            slug
+            authors
+          }
+          status
+          summary
+          thumbnail
+        }
+      }
+    }
+  }
+`;
\ No newline at end of file
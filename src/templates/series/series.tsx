@@ -1,7 +1,13 @@
 import React, {ReactElement} from 'react';
 import Layout from '../../components/layout/layout';
 import BlogPostList from '../../components/blog-post-list/blog-post-list';
+import {PostStatus} from '../../utils/post-status';
+import Pager, {PagerProps} from '../../components/pager/pager';
+import {pagePath} from '../../utils/pagination';
 import {graphql} from 'gatsby';
+import * as styles from './series.module.scss';
+import SaveOffline from '../../components/save-offline/save-offline';
+import {pluralize, uiStrings} from '../../utils/language-registry';
 
 type QueryResult = {
   data: {
@@ -10,7 +16,9 @@ type QueryResult = {
         node: {
           fields: {
             slug: string;
+            authors: string[];
           };
+          status: PostStatus;
           frontmatter: {
             title: string;
             series: null | {
@@ -20,39 +28,67 @@ type QueryResult = {
             date: string;
             tags: string[];
           };
-          excerpt: string;
+          summary: string;
+          thumbnail: null | string;
         };
       }[];
     };
   };
+
+  pageContext: PagerProps & {
+    series___title: string;
+    description: null | string;
+    partCount: number;
+    language: string;
+    offlinePaths: string[];
+    slug: string;
+  };
 }
 
-export default function Series({data: {allMarkdownRemark: {edges}}}: QueryResult): ReactElement {
+export default function Series({data: {allMarkdownRemark: {edges}}, pageContext}: QueryResult): ReactElement {
   return (
-    <Layout>
+    <Layout
+      subtitle={pageContext.series___title}
+      footer={<Pager {...pageContext}/>}
+      feed={{title: pageContext.series___title, path: pageContext.slug}}
+      seo={{
+        kind: 'series',
+        path: pagePath(pageContext.slug, pageContext.currentPage),
+        description: pageContext.description === null ? undefined : pageContext.description,
+      }}
+    >
+      <header className={styles.header}>
+        <h2>{pageContext.series___title}</h2>
+        {pageContext.description === null ? <></> : <p>{pageContext.description}</p>}
+        <p className={styles.count}>{pluralize(uiStrings(pageContext.language).seriesParts, pageContext.partCount)}</p>
+        <SaveOffline paths={pageContext.offlinePaths} language={pageContext.language}/>
+      </header>
       <BlogPostList posts={edges}/>
     </Layout>
   );
 }
 
 export const query = graphql`
-  query BlogPostBySeries($series___title: String!) {
-    allMarkdownRemark(filter: {frontmatter: {series: {title: {eq: $series___title}}}}, sort: {fields: frontmatter___date, order: DESC}) {
+  query BlogPostBySeries($series___title: String!, $language: String!, $dateFormat: String!, $skip: Int!, $limit: Int!) {
+    allMarkdownRemark(filter: {frontmatter: {series: {title: {eq: $series___title}}}, visible: {eq: true}, fields: {language: {eq: $language}}}, sort: {fields: frontmatter___series___part, order: ASC}, skip: $skip, limit: $limit) {
       edges {
         node {
           fields {
             slug
+            authors
           }
+          status
           frontmatter {
             title
-            date(formatString: "MMMM DD, YYYY")
+            date(formatString: $dateFormat, locale: $language)
             series {
               title
               part
             }
             tags
           }
-          excerpt
+          summary
+          thumbnail
         }
       }
     }
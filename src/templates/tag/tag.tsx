@@ -2,6 +2,11 @@ import React, {ReactElement} from 'react';
 import {graphql} from 'gatsby';
 import Layout from '../../components/layout/layout';
 import BlogPostList from '../../components/blog-post-list/blog-post-list';
+import {PostStatus} from '../../utils/post-status';
+import Pager, {PagerProps} from '../../components/pager/pager';
+import {pagePath} from '../../utils/pagination';
+import {tagInfo} from '../../utils/tag-registry';
+import * as styles from './tag.module.scss';
 
 type QueryResult = {
   data: {
@@ -10,7 +15,9 @@ type QueryResult = {
         node: {
           fields: {
             slug: string;
+            authors: string[];
           };
+          status: PostStatus;
           frontmatter: {
             title: string;
             series: null | {
@@ -20,39 +27,62 @@ type QueryResult = {
             date: string;
             tags: string[];
           };
-          excerpt: string;
+          summary: string;
+          thumbnail: null | string;
         };
       }[];
     };
   };
+
+  pageContext: PagerProps & {
+    tag: string;
+    slug: string;
+  };
 }
 
-export default function Tag({data: {allMarkdownRemark: {edges}}}: QueryResult): ReactElement {
+export default function Tag({data: {allMarkdownRemark: {edges}}, pageContext}: QueryResult): ReactElement {
+  const {displayName, description} = tagInfo(pageContext.tag);
   return (
-    <Layout>
+    <Layout
+      subtitle={`#${displayName}`}
+      footer={<Pager {...pageContext}/>}
+      feed={{title: `#${displayName}`, path: pageContext.slug}}
+      seo={{
+        kind: 'tag',
+        path: pagePath(pageContext.slug, pageContext.currentPage),
+        description: description === null ? `Posts tagged #${displayName}` : description,
+      }}
+    >
+      <header className={styles.header}>
+        <h2>#{displayName}</h2>
+        {description === null ? <></> : <p>{description}</p>}
+      </header>
       <BlogPostList posts={edges}/>
     </Layout>
   );
 }
 
 export const query = graphql`
-  query BlogPostByTag($tag: String!) {
-    allMarkdownRemark(filter: {frontmatter: {tags: {in: [$tag]}}}, sort: {fields: frontmatter___date, order: DESC}) {
+  query BlogPostByTag($names: [String!]!, $language: String!, $dateFormat: String!, $skip: Int!, $limit: Int!) {
+    allMarkdownRemark(filter: {frontmatter: {tags: {in: $names}}, visible: {eq: true}, fields: {language: {eq: $language}}}, sort: {fields: frontmatter___date, order: DESC}, skip: $skip, limit: $limit) {
       edges {
         node {
           fields {
             slug
+            authors
           }
+          status
           frontmatter {
             title
-            date(formatString: "MMMM DD, YYYY")
+            date(formatString: $dateFormat, locale: $language)
             tags
             series {
               title
               part
             }
           }
-          excerpt
+          summary
+          thumbnail
         }
       }
     }
@@ -0,0 +1,65 @@
+import {authors, defaultAuthor} from '../data/authors';
+
+export type AuthorLinks = {
+  github: null | string;
+  twitter: null | string;
+  website: null | string;
+};
+
+export type AuthorInfo = {
+  id: string;
+  name: string;
+  bio: null | string;
+  avatar: null | string;
+  links: AuthorLinks;
+};
+
+const registry: AuthorInfo[] = authors.map(author => ({
+  id: author.id,
+  name: author.name,
+  bio: author.bio === undefined ? null : author.bio,
+  avatar: author.avatar === undefined ? null : author.avatar,
+  links: {
+    github: author.links === undefined || author.links.github === undefined ? null : author.links.github,
+    twitter: author.links === undefined || author.links.twitter === undefined ? null : author.links.twitter,
+    website: author.links === undefined || author.links.website === undefined ? null : author.links.website,
+  },
+}));
+
+export function authorInfo(id: string): AuthorInfo {
+  const found = registry.find(author => author.id === id);
+  if (found === undefined) {
+    throw new Error(`Unknown author: ${id}`);
+  }
+  return found;
+}
+
+export function isKnownAuthor(id: string): boolean {
+  return registry.some(author => author.id === id);
+}
+
+export function postAuthors(ids: null | string[]): string[] {
+  return ids === null || ids.length === 0 ? [defaultAuthor] : ids;
+}
+
+export function authorSlug(id: string): string {
+  return `/author/${id}`;
+}
+
+export function authorRegistryProblems(): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  registry.forEach(author => {
+    if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(author.id)) {
+      problems.push(`Author id "${author.id}" must be lowercase words separated by dashes`);
+    }
+    if (ids.has(author.id)) {
+      problems.push(`Author id "${author.id}" is used more than once`);
+    }
+    ids.add(author.id);
+  });
+  if (!ids.has(defaultAuthor)) {
+    problems.push(`Default author "${defaultAuthor}" is not in the registry`);
+  }
+  return problems;
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+import {UiStrings} from '../data/languages';
+
+const copiedTimeout = 2000;
+
+export function codeBlockText(block: Element): string {
+  const code = block.querySelector('code');
+  if (code === null) {
+    return '';
+  }
+
+  const prompt = code.querySelector('.command-line-prompt');
+  const text = Array.from(code.childNodes)
+    .filter(node => node !== prompt)
+    .map(node => node.textContent || '')
+    .join('');
+  if (prompt === null) {
+    return text;
+  }
+
+  const commands = Array.from(prompt.children).map(line => line.hasAttribute('data-user') || line.hasAttribute('data-prompt'));
+  return text.split('\n').filter((line, i) => commands[i]).join('\n');
+}
+
+function copy(button: HTMLButtonElement, text: string, strings: UiStrings['copyCode']) {
+  navigator.clipboard.writeText(text).then(() => {
+    button.textContent = strings.copied;
+    setTimeout(() => button.textContent = strings.copy, copiedTimeout);
+  }, () => {
+    button.textContent = strings.failed;
+    setTimeout(() => button.textContent = strings.copy, copiedTimeout);
+  });
+}
+
+export function addCopyButtons(container: Element, strings: UiStrings['copyCode']): () => void {
+  if (navigator.clipboard === undefined) {
+    return () => undefined;
+  }
+
+  const added: Element[] = [];
+  container.querySelectorAll('.gatsby-highlight').forEach(block => {
+    let header = block.previousElementSibling;
+    if (header === null || !header.classList.contains('gatsby-code-header')) {
+      header = document.createElement('div');
+      header.className = 'gatsby-code-header';
+      block.parentNode?.insertBefore(header, block);
+      added.push(header);
+    }
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'gatsby-code-copy';
+    button.textContent = strings.copy;
+    button.addEventListener('click', () => copy(button, codeBlockText(block), strings));
+    header.appendChild(button);
+    added.push(button);
+  });
+  return () => added.forEach(element => element.remove());
+}
\ No newline at end of file
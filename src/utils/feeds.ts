@@ -0,0 +1,23 @@
+import {site} from '../data/site';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const feedFormats: FeedFormat[] = ['rss', 'atom', 'json'];
+
+const feedFiles: { [format in FeedFormat]: string } = site.feeds.files;
+
+export const feedTypes: { [format in FeedFormat]: string } = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  json: 'application/feed+json',
+};
+
+export const feedNames: { [format in FeedFormat]: string } = {
+  rss: 'RSS',
+  atom: 'Atom',
+  json: 'JSON Feed',
+};
+
+export function feedPath(basePath: string, format: FeedFormat): string {
+  return `${basePath === '/' ? '' : basePath}/${feedFiles[format]}`;
+}
\ No newline at end of file
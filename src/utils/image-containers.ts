@@ -0,0 +1,57 @@
+export type GalleryImage = {
+  src: string;
+  alt: string;
+};
+
+export function enhanceComparisons(container: Element, label: string): () => void {
+  const cleanups: (() => void)[] = [];
+  container.querySelectorAll<HTMLElement>('.post-comparison').forEach(comparison => {
+    const items = Array.from(comparison.children);
+    if (items.length !== 2) {
+      return;
+    }
+
+    const slider = document.createElement('input');
+    slider.type = 'range';
+    slider.min = '0';
+    slider.max = '100';
+    slider.value = '50';
+    slider.setAttribute('aria-label', label);
+    slider.addEventListener('input', () => comparison.style.setProperty('--position', `${slider.value}%`));
+
+    comparison.classList.add('slider');
+    items[1].classList.add('comparison-after');
+    comparison.appendChild(slider);
+    cleanups.push(() => {
+      slider.remove();
+      items[1].classList.remove('comparison-after');
+      comparison.classList.remove('slider');
+      comparison.style.removeProperty('--position');
+    });
+  });
+  return () => cleanups.forEach(cleanup => cleanup());
+}
+
+export function enhanceGalleries(container: Element, open: (images: GalleryImage[], index: number) => void): () => void {
+  const cleanups: (() => void)[] = [];
+  container.querySelectorAll('.post-gallery').forEach(gallery => {
+    const links = Array.from(gallery.querySelectorAll<HTMLAnchorElement>('a.gatsby-resp-image-link'));
+    const images = links.map(link => {
+      const image = link.querySelector('img');
+      return {src: link.href, alt: image === null ? '' : image.alt};
+    });
+
+    links.forEach((link, index) => {
+      const onClick = (event: MouseEvent) => {
+        if (event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey) {
+          return;
+        }
+        event.preventDefault();
+        open(images, index);
+      };
+      link.addEventListener('click', onClick);
+      cleanups.push(() => link.removeEventListener('click', onClick));
+    });
+  });
+  return () => cleanups.forEach(cleanup => cleanup());
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+import {defaultLanguage, LanguageEntry, languages, Plural, UiStrings} from '../data/languages';
+
+export function languageInfo(code: string): LanguageEntry {
+  const found = languages.find(language => language.code === code);
+  if (found === undefined) {
+    throw new Error(`Unknown language: ${code}`);
+  }
+  return found;
+}
+
+export function uiStrings(code: string): UiStrings {
+  return languageInfo(code).strings;
+}
+
+export function formatNumber(code: string, value: number): string {
+  return value.toLocaleString(languageInfo(code).locale);
+}
+
+export function localize(template: string, values: { [name: string]: string | number }): string {
+  return template.replace(/{(\w+)}/g, (placeholder, name: string) => name in values ? String(values[name]) : placeholder);
+}
+
+export function pluralize(plural: Plural, count: number): string {
+  return localize(count === 1 ? plural.one : plural.other, {count});
+}
+
+export function languagePath(code: string, path: string): string {
+  if (code === defaultLanguage) {
+    return path;
+  }
+  return `/${code}${path === '/' ? '' : path}`;
+}
+
+export function fileLanguage(name: string): null | string {
+  const match = /\.([a-z]{2}(-[a-z]{2})?)$/i.exec(name);
+  return match === null ? null : match[1];
+}
+
+export function languageRegistryProblems(): string[] {
+  const problems: string[] = [];
+  const codes = new Set<string>();
+  languages.forEach(language => {
+    if (!/^[a-z]{2}(-[a-z]{2})?$/i.test(language.code)) {
+      problems.push(`Language code "${language.code}" must be a two letter code with an optional region`);
+    }
+    if (codes.has(language.code)) {
+      problems.push(`Language code "${language.code}" is used more than once`);
+    }
+    if (language.dateFormat.trim() === '') {
+      problems.push(`Language "${language.code}" must have a date format`);
+    }
+    codes.add(language.code);
+  });
+  if (!codes.has(defaultLanguage)) {
+    problems.push(`Default language "${defaultLanguage}" is not in the registry`);
+  }
+  return problems;
+}
\ No newline at end of file
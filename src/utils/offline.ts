@@ -0,0 +1,60 @@
+export const serviceWorkerPath = '/sw.js';
+
+export const offlinePagePath = '/offline/';
+
+export type SaveRequest = {
+  type: 'save';
+  urls: string[];
+};
+
+export type SaveResult = {
+  failed: string[];
+};
+
+export function pageDataPath(path: string): string {
+  const page = path === '/' ? '/index' : path.replace(/\/$/, '');
+  return `/page-data${page}/page-data.json`;
+}
+
+export function offlineUrls(paths: string[]): string[] {
+  return ([] as string[]).concat(...paths.map(path => [path, pageDataPath(path)]));
+}
+
+export function isOfflineSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator && typeof caches !== 'undefined';
+}
+
+export function registerServiceWorker(): void {
+  if (!isOfflineSupported() || process.env.NODE_ENV !== 'production') {
+    return;
+  }
+  navigator.serviceWorker.register(serviceWorkerPath).catch(() => undefined);
+}
+
+export function saveForOffline(paths: string[]): Promise<SaveResult> {
+  return navigator.serviceWorker.ready.then(registration => new Promise<SaveResult>((resolve, reject) => {
+    if (registration.active === null) {
+      reject(new Error('No active service worker'));
+      return;
+    }
+
+    const channel = new MessageChannel();
+    channel.port1.onmessage = event => resolve(event.data as SaveResult);
+    const request: SaveRequest = {type: 'save', urls: offlineUrls(paths)};
+    registration.active.postMessage(request, [channel.port2]);
+  }));
+}
+
+export function isSavedForOffline(paths: string[]): Promise<boolean> {
+  return Promise.all(offlineUrls(paths).map(url => caches.match(url)))
+    .then(responses => responses.every(response => response !== undefined));
+}
+
+export function rememberVisitedPage(path: string): void {
+  if (!isOfflineSupported() || navigator.serviceWorker.controller === null) {
+    return;
+  }
+  isSavedForOffline([path])
+    .then(saved => saved ? undefined : saveForOffline([path]))
+    .catch(() => undefined);
+}
\ No newline at end of file
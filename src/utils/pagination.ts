@@ -0,0 +1,6 @@
+export function pagePath(basePath: string, page: number): string {
+  if (page <= 1) {
+    return basePath;
+  }
+  return `${basePath === '/' ? '' : basePath}/page/${page}`;
+}
\ No newline at end of file
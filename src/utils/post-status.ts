@@ -0,0 +1 @@
+export type PostStatus = 'published' | 'draft' | 'scheduled';
\ No newline at end of file
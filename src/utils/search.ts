@@ -0,0 +1,99 @@
+export const searchIndexPath = '/search-index.json';
+
+export type SearchDocument = {
+  slug: string;
+  title: string;
+  date: string;
+  headings: string[];
+  body: string;
+  tags: string[];
+  series: null | string;
+};
+
+export type SearchFilters = {
+  tag: null | string;
+  series: null | string;
+};
+
+export type SnippetPart = {
+  text: string;
+  highlighted: boolean;
+};
+
+export type SearchResult = {
+  document: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+};
+
+const weights = {
+  title: 10,
+  headings: 5,
+  tags: 4,
+  series: 3,
+  body: 1,
+};
+
+const snippetRadius = 80;
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 0);
+}
+
+export function search(documents: SearchDocument[], query: string, filters: SearchFilters): SearchResult[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) {
+    return [];
+  }
+
+  return documents
+    .filter(document => filters.tag === null || document.tags.includes(filters.tag))
+    .filter(document => filters.series === null || document.series === filters.series)
+    .map(document => ({document, score: score(document, terms), snippet: snippet(document.body, terms)}))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+function score(document: SearchDocument, terms: string[]): number {
+  const fields: [number, string[]][] = [
+    [weights.title, tokenize(document.title)],
+    [weights.headings, tokenize(document.headings.join(' '))],
+    [weights.tags, tokenize(document.tags.join(' '))],
+    [weights.series, tokenize(document.series || '')],
+    [weights.body, tokenize(document.body)],
+  ];
+
+  let total = 0;
+  for (const term of terms) {
+    const termScore = fields.reduce((sum, [weight, tokens]) => sum + weight * tokens.filter(token => token.startsWith(term)).length, 0);
+    if (termScore === 0) {
+      return 0;
+    }
+    total += termScore;
+  }
+  return total;
+}
+
+function snippet(body: string, terms: string[]): SnippetPart[] {
+  const pattern = new RegExp(`\\b(?:${terms.map(escapeRegExp).join('|')})[a-z0-9]*`, 'gi');
+  const match = pattern.exec(body);
+  const center = match === null ? 0 : match.index;
+  const start = Math.max(0, center - snippetRadius);
+  const end = Math.min(body.length, center + snippetRadius);
+  const text = (start > 0 ? '…' : '') + body.slice(start, end) + (end < body.length ? '…' : '');
+
+  const parts: SnippetPart[] = [];
+  let last = 0;
+  text.replace(pattern, (highlighted: string, offset: number) => {
+    parts.push({text: text.slice(last, offset), highlighted: false});
+    parts.push({text: highlighted, highlighted: true});
+    last = offset + highlighted.length;
+    return highlighted;
+  });
+  parts.push({text: text.slice(last), highlighted: false});
+  return parts.filter(part => part.text.length > 0);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
\ No newline at end of file
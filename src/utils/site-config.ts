@@ -0,0 +1,38 @@
+import {site} from '../data/site';
+
+const feedFilePattern = /^[\w.-]+$/;
+
+export function siteConfigProblems(): string[] {
+  const problems: string[] = [];
+  if (site.title.trim() === '') {
+    problems.push('title must not be empty');
+  }
+  if (!/^https?:\/\/[^/]+$/.test(site.siteUrl)) {
+    problems.push(`siteUrl "${site.siteUrl}" must be an absolute http(s) URL without a trailing slash`);
+  }
+  if (!Number.isInteger(site.postsPerPage) || site.postsPerPage < 1) {
+    problems.push(`postsPerPage must be a positive integer, got ${site.postsPerPage}`);
+  }
+  site.social.forEach(profile => {
+    if (!/^(https?:\/\/|mailto:)/.test(profile.url)) {
+      problems.push(`social profile "${profile.label}" must link to an absolute URL, got "${profile.url}"`);
+    }
+  });
+  site.nav.forEach(entry => {
+    if (!entry.path.startsWith('/')) {
+      problems.push(`nav entry "${entry.label}" must link to a site path starting with "/", got "${entry.path}"`);
+    }
+  });
+  Object.entries(site.feeds.files).forEach(([format, file]) => {
+    if (!feedFilePattern.test(file)) {
+      problems.push(`${format} feed file "${file}" must be a plain file name`);
+    }
+  });
+  if (new Set(Object.values(site.feeds.files)).size !== Object.keys(site.feeds.files).length) {
+    problems.push('feed files must be distinct');
+  }
+  if (!/^[\w.-]+$/.test(site.prompt.user) || !/^[\w.-]+$/.test(site.prompt.host)) {
+    problems.push('prompt user and host must be plain names');
+  }
+  return problems;
+}
\ No newline at end of file
@@ -0,0 +1,7 @@
+export const socialImageWidth = 1200;
+
+export const socialImageHeight = 630;
+
+export function socialImagePath(slug: string): string {
+  return `${slug.endsWith('/') ? slug : slug + '/'}og-image.png`;
+}
\ No newline at end of file
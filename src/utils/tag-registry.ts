@@ -0,0 +1,59 @@
+import slugify from 'slugify';
+import {tags} from '../data/tags';
+
+export type TagInfo = {
+  name: string;
+  displayName: string;
+  description: null | string;
+  aliases: string[];
+};
+
+const registry: TagInfo[] = tags.map(tag => ({
+  name: tag.name,
+  displayName: tag.displayName === undefined ? tag.name : tag.displayName,
+  description: tag.description === undefined ? null : tag.description,
+  aliases: tag.aliases === undefined ? [] : tag.aliases,
+}));
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function tagInfo(name: string): TagInfo {
+  const found = registry.find(tag => normalize(tag.name) === normalize(name) || tag.aliases.some(alias => normalize(alias) === normalize(name)));
+  return found === undefined ? {name: normalize(name), displayName: name.trim(), description: null, aliases: []} : found;
+}
+
+export function canonicalTag(name: string): string {
+  return tagInfo(name).name;
+}
+
+export function canonicalTags(names: string[]): string[] {
+  return Array.from(new Set(names.map(canonicalTag)));
+}
+
+export function tagSlug(name: string): string {
+  return slugifyTag(canonicalTag(name));
+}
+
+export function tagAliasSlugs(name: string): string[] {
+  const slug = tagSlug(name);
+  return Array.from(new Set(tagInfo(name).aliases.map(slugifyTag))).filter(alias => alias !== slug);
+}
+
+export function tagRegistryProblems(): string[] {
+  const owners = new Map<string, string>();
+  const problems: string[] = [];
+  registry.forEach(tag => [tag.name, ...tag.aliases].forEach(name => {
+    const owner = owners.get(normalize(name));
+    if (owner !== undefined) {
+      problems.push(`Tag name or alias "${name}" of "${tag.name}" is already used by "${owner}"`);
+    }
+    owners.set(normalize(name), tag.name);
+  }));
+  return problems;
+}
+
+function slugifyTag(name: string): string {
+  return `/tag/${slugify(name, {lower: true})}`;
+}
\ No newline at end of file
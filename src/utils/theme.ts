@@ -0,0 +1,81 @@
+export type Theme = 'light' | 'dark' | 'system';
+
+export type ResolvedTheme = 'light' | 'dark';
+
+export const themes: Theme[] = ['light', 'dark', 'system'];
+
+export const themeColors: Record<ResolvedTheme, { background: string, theme: string }> = {
+  light: {
+    background: '#f7f0eb',
+    theme: '#a2466c',
+  },
+  dark: {
+    background: '#1f1b1d',
+    theme: '#5e2a40',
+  },
+};
+
+export const schemeQueries: Record<ResolvedTheme, string> = {
+  light: '(prefers-color-scheme: light)',
+  dark: '(prefers-color-scheme: dark)',
+};
+
+const storageKey = 'theme';
+
+const darkQuery = schemeQueries.dark;
+
+export function storedTheme(): Theme {
+  try {
+    const theme = window.localStorage.getItem(storageKey);
+    return themes.find(t => t === theme) || 'system';
+  } catch (e) {
+    return 'system';
+  }
+}
+
+export function saveTheme(theme: Theme): void {
+  try {
+    window.localStorage.setItem(storageKey, theme);
+  } catch (e) {
+    // Storage can be unavailable, e.g. in private browsing; the choice then only lasts for this page.
+  }
+}
+
+export function resolveTheme(theme: Theme): ResolvedTheme {
+  if (theme !== 'system') {
+    return theme;
+  }
+  return window.matchMedia(darkQuery).matches ? 'dark' : 'light';
+}
+
+export function applyTheme(theme: Theme): void {
+  const resolved = resolveTheme(theme);
+  document.documentElement.setAttribute('data-theme', resolved);
+  document.querySelectorAll('meta[name="theme-color"]').forEach(meta => {
+    const scheme = meta.getAttribute('media') === darkQuery ? 'dark' : 'light';
+    meta.setAttribute('content', themeColors[theme === 'system' ? scheme : resolved].theme);
+  });
+}
+
+export function watchSystemTheme(onChange: () => void): () => void {
+  const query = window.matchMedia(darkQuery);
+  query.addListener(onChange);
+  return () => query.removeListener(onChange);
+}
+
+export function themeScript(): string {
+  return `(function() {
+  var theme = 'system';
+  try {
+    theme = window.localStorage.getItem(${JSON.stringify(storageKey)}) || 'system';
+  } catch (e) {}
+  var resolved = theme === 'dark' || theme === 'light' ? theme : window.matchMedia(${JSON.stringify(darkQuery)}).matches ? 'dark' : 'light';
+  document.documentElement.setAttribute('data-theme', resolved);
+  var colors = ${JSON.stringify({light: themeColors.light.theme, dark: themeColors.dark.theme})};
+  var metas = document.querySelectorAll('meta[name="theme-color"]');
+  for (var i = 0; i < metas.length; i++) {
+    var scheme = metas[i].getAttribute('media') === ${JSON.stringify(darkQuery)} ? 'dark' : 'light';
+    metas[i].setAttribute('content', colors[theme === 'dark' || theme === 'light' ? resolved : scheme]);
+  }
+})();`;
+}
\ No newline at end of file
@@ -1,6 +1,31 @@
 import Typography from 'typography';
 import githubTheme from 'typography-theme-github';
 
+githubTheme.overrideThemeStyles = () => ({
+  'h1,h2,h3,h4,h5': {
+    color: 'var(--heading-color)',
+  },
+  'h1,h2': {
+    borderBottomColor: 'var(--border-color)',
+  },
+  h6: {
+    color: 'var(--muted-color)',
+  },
+  a: {
+    color: 'var(--link-color)',
+  },
+  blockquote: {
+    borderLeftColor: 'var(--border-color)',
+    color: 'var(--muted-color)',
+  },
+  hr: {
+    background: 'var(--border-color)',
+  },
+  'th,td': {
+    borderBottomColor: 'var(--border-color)',
+  },
+});
+
 const typography = new Typography(githubTheme);
 
 export const {scale, rhythm, options} = typography;